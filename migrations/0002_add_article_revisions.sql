@@ -0,0 +1,29 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章修订历史
+-- 迁移版本: 0002
+-- =============================================================================
+
+-- 文章修订表
+CREATE TABLE IF NOT EXISTS article_revisions (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    revision_number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    slug TEXT NOT NULL,
+    content TEXT NOT NULL,
+    excerpt TEXT,
+    category TEXT,
+    tags TEXT, -- JSON array
+    status TEXT,
+    cover_image TEXT,
+    changed_fields TEXT, -- JSON array
+    restored_from TEXT,
+    created_by TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(article_id, revision_number),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 文章修订表索引
+CREATE INDEX IF NOT EXISTS idx_article_revisions_article_id ON article_revisions(article_id, revision_number);
@@ -0,0 +1,66 @@
+-- =============================================================================
+-- 现代化博客系统 - 定时发布
+-- 迁移版本: 0003
+-- =============================================================================
+
+-- 文章状态新增 'scheduled'（定时发布），由定时任务在 published_at 到期后改为 'published'
+-- 定时任务按状态和发布时间查找到期文章（索引随重建后的表创建）
+-- 旧版 schema.sql 创建的 articles.status 只允许 'draft'、'published'、'archived'。
+-- SQLite 不能修改 CHECK 约束，需要重建 articles 表。
+
+PRAGMA defer_foreign_keys = on;
+
+CREATE TABLE articles_new (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    slug TEXT UNIQUE NOT NULL,
+    content TEXT NOT NULL,
+    excerpt TEXT,
+    summary TEXT, -- AI 生成的摘要
+    cover_image TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'published', 'archived')),
+    category TEXT NOT NULL,
+    tags TEXT, -- JSON 数组字符串
+    author_id TEXT NOT NULL,
+    published_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    view_count INTEGER DEFAULT 0,
+    like_count INTEGER DEFAULT 0,
+    FOREIGN KEY (author_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+INSERT INTO articles_new (id, title, slug, content, excerpt, summary, cover_image, status, category, tags, author_id, published_at, created_at, updated_at, view_count, like_count)
+SELECT id, title, slug, content, excerpt, summary, cover_image, status, category, tags, author_id, published_at, created_at, updated_at, view_count, like_count
+FROM articles;
+
+-- 删除 articles 时 ON DELETE CASCADE 仍会执行（defer_foreign_keys 只推迟约束检查），先备份关联表
+CREATE TABLE article_revisions_backup AS SELECT * FROM article_revisions;
+CREATE TABLE article_views_backup AS SELECT * FROM article_views;
+
+DROP TABLE articles;
+ALTER TABLE articles_new RENAME TO articles;
+
+DELETE FROM article_revisions;
+INSERT INTO article_revisions SELECT * FROM article_revisions_backup;
+DROP TABLE article_revisions_backup;
+
+DELETE FROM article_views;
+INSERT INTO article_views SELECT * FROM article_views_backup;
+DROP TABLE article_views_backup;
+
+-- 重建索引和触发器（随旧表一起删除）
+CREATE INDEX IF NOT EXISTS idx_articles_slug ON articles(slug);
+CREATE INDEX IF NOT EXISTS idx_articles_author_id ON articles(author_id);
+CREATE INDEX IF NOT EXISTS idx_articles_status ON articles(status);
+CREATE INDEX IF NOT EXISTS idx_articles_category ON articles(category);
+CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles(published_at);
+CREATE INDEX IF NOT EXISTS idx_articles_status_published_at ON articles(status, published_at);
+
+CREATE TRIGGER IF NOT EXISTS update_articles_updated_at 
+    AFTER UPDATE ON articles
+    BEGIN
+        UPDATE articles SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+
+PRAGMA defer_foreign_keys = off;
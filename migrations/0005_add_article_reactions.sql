@@ -0,0 +1,21 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章点赞与表情回应
+-- 迁移版本: 0005
+-- =============================================================================
+
+-- 文章点赞与表情回应表
+CREATE TABLE IF NOT EXISTS article_reactions (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    reaction TEXT NOT NULL,
+    user_id TEXT,
+    visitor_id TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 同一用户或访客对同一篇文章的同一种回应只记录一次
+CREATE INDEX IF NOT EXISTS idx_article_reactions_article_id ON article_reactions(article_id, reaction);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_reactions_user ON article_reactions(article_id, reaction, user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_reactions_visitor ON article_reactions(article_id, reaction, visitor_id);
@@ -0,0 +1,25 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章标签关联表
+-- 迁移版本: 0006
+-- =============================================================================
+
+-- 文章标签关联表（articles.tags 仍保留 JSON 数组，用于接口返回）
+CREATE TABLE IF NOT EXISTS article_tags (
+    article_id TEXT NOT NULL,
+    tag_slug TEXT NOT NULL COLLATE NOCASE,
+    position INTEGER DEFAULT 0,
+    PRIMARY KEY (article_id, tag_slug),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
+-- 文章标签关联表索引
+CREATE INDEX IF NOT EXISTS idx_article_tags_tag_slug ON article_tags(tag_slug);
+
+-- 从已有的 JSON 数组回填关联数据
+INSERT OR IGNORE INTO article_tags (article_id, tag_slug, position)
+SELECT a.id, TRIM(j.value), j.key
+FROM articles a, json_each(a.tags) j
+WHERE a.tags IS NOT NULL
+  AND json_valid(a.tags)
+  AND j.type = 'text'
+  AND TRIM(j.value) != '';
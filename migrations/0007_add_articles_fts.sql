@@ -0,0 +1,19 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章全文搜索索引
+-- 迁移版本: 0007
+-- =============================================================================
+
+-- 文章全文搜索索引（FTS5，由应用在文章创建、更新和删除时同步）
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(
+    article_id UNINDEXED,
+    title,
+    excerpt,
+    content,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- 为已有文章建立索引
+INSERT INTO articles_fts (article_id, title, excerpt, content)
+SELECT id, title, COALESCE(excerpt, ''), content
+FROM articles
+WHERE id NOT IN (SELECT article_id FROM articles_fts);
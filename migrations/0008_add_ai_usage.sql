@@ -0,0 +1,26 @@
+-- =============================================================================
+-- 现代化博客系统 - AI 调用配额与记录
+-- 迁移版本: 0008
+-- =============================================================================
+
+-- 用户的每日 AI 调用配额，NULL 表示使用角色默认配额
+ALTER TABLE users ADD COLUMN ai_daily_quota INTEGER;
+
+-- AI 调用记录表（用于配额统计和成本核算）
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id TEXT PRIMARY KEY,
+    user_id TEXT, -- 系统任务（如向量同步）为 NULL
+    operation TEXT NOT NULL, -- summarize、chat、embed 等
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_chars INTEGER DEFAULT 0,
+    output_chars INTEGER DEFAULT 0,
+    latency_ms INTEGER DEFAULT 0,
+    cached BOOLEAN DEFAULT FALSE, -- 命中缓存的调用不计入配额
+    success BOOLEAN DEFAULT TRUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at);
@@ -0,0 +1,30 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章多语言版本
+-- 迁移版本: 0009
+-- =============================================================================
+
+-- 文章原文的语言，已有文章视为中文
+ALTER TABLE articles ADD COLUMN language TEXT NOT NULL DEFAULT 'zh';
+
+CREATE INDEX IF NOT EXISTS idx_articles_language ON articles(language);
+
+-- 文章翻译表（同一篇文章的其他语言版本）
+CREATE TABLE IF NOT EXISTS article_translations (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    language TEXT NOT NULL,
+    title TEXT NOT NULL,
+    excerpt TEXT,
+    content TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+    source TEXT NOT NULL DEFAULT 'ai' CHECK (source IN ('ai', 'manual')), -- 机器翻译或人工编辑
+    source_updated_at DATETIME, -- 翻译时原文的更新时间，用于判断译文是否过期
+    created_by TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(article_id, language),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_translations_language ON article_translations(language, status);
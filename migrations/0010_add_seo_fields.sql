@@ -0,0 +1,16 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章和页面的 SEO 元数据
+-- 迁移版本: 0010
+-- =============================================================================
+
+-- 文章 SEO 字段
+ALTER TABLE articles ADD COLUMN meta_title TEXT;
+ALTER TABLE articles ADD COLUMN meta_description TEXT;
+ALTER TABLE articles ADD COLUMN meta_keywords TEXT; -- JSON 数组字符串
+ALTER TABLE articles ADD COLUMN og_title TEXT; -- Open Graph 分享标题
+ALTER TABLE articles ADD COLUMN og_description TEXT; -- Open Graph 分享描述
+
+-- 页面已有 meta_title 和 meta_description，补充关键词和 Open Graph 字段
+ALTER TABLE pages ADD COLUMN meta_keywords TEXT; -- JSON 数组字符串
+ALTER TABLE pages ADD COLUMN og_title TEXT; -- Open Graph 分享标题
+ALTER TABLE pages ADD COLUMN og_description TEXT; -- Open Graph 分享描述
@@ -0,0 +1,14 @@
+-- =============================================================================
+-- 现代化博客系统 - 用户提交内容的审核评分
+-- 迁移版本: 0011
+-- =============================================================================
+
+-- 审核结果（JSON：spam、toxicity、link_farming 评分及来源）
+ALTER TABLE friend_links ADD COLUMN moderation TEXT;
+ALTER TABLE comments ADD COLUMN moderation TEXT;
+
+-- 自动拒绝的评分阈值（任一评分达到阈值即拒绝，大于 1 表示不自动拒绝）
+INSERT OR IGNORE INTO settings (key, value, description) VALUES
+('moderation_threshold_spam', '0.9', '垃圾内容评分达到该值时自动拒绝'),
+('moderation_threshold_toxicity', '0.9', '攻击性内容评分达到该值时自动拒绝'),
+('moderation_threshold_link_farming', '0.9', '链接农场评分达到该值时自动拒绝');
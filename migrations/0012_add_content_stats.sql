@@ -0,0 +1,15 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章目录、字数和预计阅读时间
+-- 迁移版本: 0012
+-- =============================================================================
+
+-- 保存文章时计算，已有文章由定时任务补齐
+ALTER TABLE articles ADD COLUMN toc TEXT; -- 目录，JSON 数组字符串
+ALTER TABLE articles ADD COLUMN word_count INTEGER; -- 字数（中日韩文字按字计算）
+ALTER TABLE articles ADD COLUMN reading_time INTEGER; -- 预计阅读时间（分钟）
+
+ALTER TABLE article_translations ADD COLUMN toc TEXT;
+ALTER TABLE article_translations ADD COLUMN word_count INTEGER;
+ALTER TABLE article_translations ADD COLUMN reading_time INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_articles_reading_time ON articles(reading_time);
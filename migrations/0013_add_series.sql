@@ -0,0 +1,30 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章系列
+-- 迁移版本: 0013
+-- =============================================================================
+
+-- 系列表（多篇文章组成的系列教程）
+CREATE TABLE IF NOT EXISTS series (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    slug TEXT UNIQUE NOT NULL,
+    description TEXT,
+    cover_image TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_by TEXT,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 系列文章关联表（一篇文章最多属于一个系列）
+CREATE TABLE IF NOT EXISTS series_articles (
+    series_id TEXT NOT NULL,
+    article_id TEXT NOT NULL UNIQUE,
+    position INTEGER NOT NULL DEFAULT 0, -- 文章在系列中的顺序
+    PRIMARY KEY (series_id, article_id),
+    FOREIGN KEY (series_id) REFERENCES series(id) ON DELETE CASCADE,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_slug ON series(slug);
+CREATE INDEX IF NOT EXISTS idx_series_articles_series ON series_articles(series_id, position);
@@ -0,0 +1,122 @@
+-- =============================================================================
+-- 现代化博客系统 - 投稿审核流程
+-- 迁移版本: 0014
+-- =============================================================================
+
+-- 文章状态新增 'in_review'（已投稿待审核），审核通过后发布，退回修改时回到 'draft'
+-- 此前的 CHECK 约束不允许 'in_review'。
+-- SQLite 不能修改 CHECK 约束，需要重建 articles 表。
+
+PRAGMA defer_foreign_keys = on;
+
+CREATE TABLE articles_new (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    slug TEXT UNIQUE NOT NULL,
+    content TEXT NOT NULL,
+    excerpt TEXT,
+    summary TEXT, -- AI 生成的摘要
+    cover_image TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'in_review', 'scheduled', 'published', 'archived')),
+    category TEXT NOT NULL,
+    tags TEXT, -- JSON 数组字符串
+    author_id TEXT NOT NULL,
+    published_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    view_count INTEGER DEFAULT 0,
+    like_count INTEGER DEFAULT 0,
+    language TEXT NOT NULL DEFAULT 'zh', -- 文章原文的语言
+    meta_title TEXT,
+    meta_description TEXT,
+    meta_keywords TEXT, -- JSON 数组字符串
+    og_title TEXT, -- Open Graph 分享标题
+    og_description TEXT, -- Open Graph 分享描述
+    toc TEXT, -- 目录，JSON 数组字符串
+    word_count INTEGER, -- 字数（中日韩文字按字计算）
+    reading_time INTEGER, -- 预计阅读时间（分钟）
+    FOREIGN KEY (author_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+INSERT INTO articles_new (id, title, slug, content, excerpt, summary, cover_image, status, category, tags, author_id, published_at, created_at, updated_at, view_count, like_count, language, meta_title, meta_description, meta_keywords, og_title, og_description, toc, word_count, reading_time)
+SELECT id, title, slug, content, excerpt, summary, cover_image, status, category, tags, author_id, published_at, created_at, updated_at, view_count, like_count, language, meta_title, meta_description, meta_keywords, og_title, og_description, toc, word_count, reading_time
+FROM articles;
+
+-- 删除 articles 时 ON DELETE CASCADE 仍会执行（defer_foreign_keys 只推迟约束检查），先备份关联表
+CREATE TABLE article_translations_backup AS SELECT * FROM article_translations;
+CREATE TABLE article_revisions_backup AS SELECT * FROM article_revisions;
+CREATE TABLE article_tags_backup AS SELECT * FROM article_tags;
+CREATE TABLE series_articles_backup AS SELECT * FROM series_articles;
+CREATE TABLE comments_backup AS SELECT * FROM comments;
+CREATE TABLE article_views_backup AS SELECT * FROM article_views;
+CREATE TABLE article_reactions_backup AS SELECT * FROM article_reactions;
+
+DROP TABLE articles;
+ALTER TABLE articles_new RENAME TO articles;
+
+DELETE FROM article_translations;
+INSERT INTO article_translations SELECT * FROM article_translations_backup;
+DROP TABLE article_translations_backup;
+
+DELETE FROM article_revisions;
+INSERT INTO article_revisions SELECT * FROM article_revisions_backup;
+DROP TABLE article_revisions_backup;
+
+DELETE FROM article_tags;
+INSERT INTO article_tags SELECT * FROM article_tags_backup;
+DROP TABLE article_tags_backup;
+
+DELETE FROM series_articles;
+INSERT INTO series_articles SELECT * FROM series_articles_backup;
+DROP TABLE series_articles_backup;
+
+DELETE FROM comments;
+INSERT INTO comments SELECT * FROM comments_backup;
+DROP TABLE comments_backup;
+
+DELETE FROM article_views;
+INSERT INTO article_views SELECT * FROM article_views_backup;
+DROP TABLE article_views_backup;
+
+DELETE FROM article_reactions;
+INSERT INTO article_reactions SELECT * FROM article_reactions_backup;
+DROP TABLE article_reactions_backup;
+
+-- 重建索引和触发器（随旧表一起删除）
+CREATE INDEX IF NOT EXISTS idx_articles_slug ON articles(slug);
+CREATE INDEX IF NOT EXISTS idx_articles_author_id ON articles(author_id);
+CREATE INDEX IF NOT EXISTS idx_articles_status ON articles(status);
+CREATE INDEX IF NOT EXISTS idx_articles_category ON articles(category);
+CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles(published_at);
+CREATE INDEX IF NOT EXISTS idx_articles_status_published_at ON articles(status, published_at);
+CREATE INDEX IF NOT EXISTS idx_articles_language ON articles(language);
+CREATE INDEX IF NOT EXISTS idx_articles_reading_time ON articles(reading_time);
+
+CREATE TRIGGER IF NOT EXISTS update_articles_updated_at 
+    AFTER UPDATE ON articles
+    BEGIN
+        UPDATE articles SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+
+PRAGMA defer_foreign_keys = off;
+
+-- 文章状态变更记录表（投稿、审核、发布等）
+CREATE TABLE IF NOT EXISTS article_status_transitions (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    from_status TEXT, -- 新建文章时为空
+    to_status TEXT NOT NULL,
+    comment TEXT, -- 审核意见
+    created_by TEXT, -- 定时发布等系统操作为空
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_status_transitions_article_id ON article_status_transitions(article_id, created_at);
+
+-- 发布权限：用户单独设置优先，未设置时按 publish_min_role 判断
+ALTER TABLE users ADD COLUMN can_publish BOOLEAN;
+
+INSERT OR IGNORE INTO settings (key, value, description) VALUES
+('publish_min_role', 'admin', '可以直接发布文章和审核投稿的最低角色（admin 或 collaborator）');
@@ -0,0 +1,21 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章合著作者
+-- 迁移版本: 0015
+-- =============================================================================
+
+-- 文章作者表（有顺序的作者列表，articles.author_id 为创建者，始终在列表中）
+CREATE TABLE IF NOT EXISTS article_authors (
+    article_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'author' CHECK (role IN ('author', 'editor', 'translator')),
+    position INTEGER NOT NULL DEFAULT 0, -- 作者署名顺序
+    PRIMARY KEY (article_id, user_id),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_authors_user_id ON article_authors(user_id);
+
+-- 已有文章的创建者作为第一作者
+INSERT OR IGNORE INTO article_authors (article_id, user_id, role, position)
+SELECT id, author_id, 'author', 0 FROM articles;
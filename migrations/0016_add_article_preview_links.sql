@@ -0,0 +1,18 @@
+-- =============================================================================
+-- 现代化博客系统 - 文章预览链接
+-- 迁移版本: 0016
+-- =============================================================================
+
+-- 文章预览链接表（签名 Token 的 jti，用于撤销）
+CREATE TABLE IF NOT EXISTS article_preview_links (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    expires_at DATETIME NOT NULL,
+    revoked_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_article_preview_links_article_id ON article_preview_links(article_id);
@@ -0,0 +1,18 @@
+-- =============================================================================
+-- 现代化博客系统 - Slug 重定向
+-- 迁移版本: 0017
+-- =============================================================================
+
+-- Slug 重定向表（文章、页面、分类、标签改名后旧 slug 指向当前记录）
+CREATE TABLE IF NOT EXISTS slug_redirects (
+    id TEXT PRIMARY KEY,
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('article', 'page', 'category', 'tag')),
+    old_slug TEXT NOT NULL,
+    entity_id TEXT NOT NULL, -- 指向记录 ID 而不是新 slug，多次改名时不会形成重定向链
+    created_by TEXT, -- 自动记录时为修改 slug 的用户
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (entity_type, old_slug),
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_slug_redirects_entity ON slug_redirects(entity_type, entity_id);
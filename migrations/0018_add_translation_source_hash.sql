@@ -0,0 +1,8 @@
+-- =============================================================================
+-- 现代化博客系统 - 译文过期判断
+-- 迁移版本: 0018
+-- =============================================================================
+
+-- 记录翻译时原文标题、摘要和正文的哈希，用于判断译文是否过期
+-- articles.updated_at 在浏览量、点赞数更新时也会变化，不能用来比较；已有译文的哈希为空，视为过期
+ALTER TABLE article_translations ADD COLUMN source_hash TEXT;
@@ -13,7 +13,9 @@ CREATE TABLE IF NOT EXISTS users (
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     last_login_at DATETIME,
-    is_active BOOLEAN DEFAULT TRUE
+    is_active BOOLEAN DEFAULT TRUE,
+    ai_daily_quota INTEGER, -- 每日 AI 调用配额，NULL 表示使用角色默认配额
+    can_publish BOOLEAN -- 能否直接发布文章，NULL 表示按 publish_min_role 设置判断
 );
 
 -- 文章表
@@ -25,7 +27,7 @@ CREATE TABLE IF NOT EXISTS articles (
     excerpt TEXT,
     summary TEXT, -- AI 生成的摘要
     cover_image TEXT,
-    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'in_review', 'scheduled', 'published', 'archived')),
     category TEXT NOT NULL,
     tags TEXT, -- JSON 数组字符串
     author_id TEXT NOT NULL,
@@ -34,9 +36,133 @@ CREATE TABLE IF NOT EXISTS articles (
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     view_count INTEGER DEFAULT 0,
     like_count INTEGER DEFAULT 0,
+    language TEXT NOT NULL DEFAULT 'zh', -- 文章原文的语言
+    meta_title TEXT,
+    meta_description TEXT,
+    meta_keywords TEXT, -- JSON 数组字符串
+    og_title TEXT, -- Open Graph 分享标题
+    og_description TEXT, -- Open Graph 分享描述
+    toc TEXT, -- 目录，JSON 数组字符串
+    word_count INTEGER, -- 字数（中日韩文字按字计算）
+    reading_time INTEGER, -- 预计阅读时间（分钟）
     FOREIGN KEY (author_id) REFERENCES users(id) ON DELETE CASCADE
 );
 
+-- 文章作者表（有顺序的作者列表，articles.author_id 为创建者，始终在列表中）
+CREATE TABLE IF NOT EXISTS article_authors (
+    article_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'author' CHECK (role IN ('author', 'editor', 'translator')),
+    position INTEGER NOT NULL DEFAULT 0, -- 作者署名顺序
+    PRIMARY KEY (article_id, user_id),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 文章翻译表（同一篇文章的其他语言版本）
+CREATE TABLE IF NOT EXISTS article_translations (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    language TEXT NOT NULL,
+    title TEXT NOT NULL,
+    excerpt TEXT,
+    content TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+    source TEXT NOT NULL DEFAULT 'ai' CHECK (source IN ('ai', 'manual')), -- 机器翻译或人工编辑
+    source_updated_at DATETIME, -- 翻译时原文的更新时间
+    source_hash TEXT, -- 翻译时原文标题、摘要和正文的哈希，用于判断译文是否过期
+    toc TEXT, -- 目录，JSON 数组字符串
+    word_count INTEGER, -- 字数（中日韩文字按字计算）
+    reading_time INTEGER, -- 预计阅读时间（分钟）
+    created_by TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(article_id, language),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 文章修订表
+CREATE TABLE IF NOT EXISTS article_revisions (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    revision_number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    slug TEXT NOT NULL,
+    content TEXT NOT NULL,
+    excerpt TEXT,
+    category TEXT,
+    tags TEXT, -- JSON 数组字符串
+    status TEXT,
+    cover_image TEXT,
+    changed_fields TEXT, -- JSON 数组字符串，本次修改的字段
+    restored_from TEXT, -- 从哪个修订恢复而来
+    created_by TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(article_id, revision_number),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 文章状态变更记录表（投稿、审核、发布等）
+CREATE TABLE IF NOT EXISTS article_status_transitions (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    from_status TEXT, -- 新建文章时为空
+    to_status TEXT NOT NULL,
+    comment TEXT, -- 审核意见
+    created_by TEXT, -- 定时发布等系统操作为空
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 文章预览链接表（签名 Token 的 jti，用于撤销）
+CREATE TABLE IF NOT EXISTS article_preview_links (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    expires_at DATETIME NOT NULL,
+    revoked_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 文章标签关联表
+CREATE TABLE IF NOT EXISTS article_tags (
+    article_id TEXT NOT NULL,
+    tag_slug TEXT NOT NULL COLLATE NOCASE,
+    position INTEGER DEFAULT 0, -- 标签在文章中的顺序
+    PRIMARY KEY (article_id, tag_slug),
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
+-- 文章全文搜索索引（FTS5，由应用在文章创建、更新和删除时同步）
+CREATE VIRTUAL TABLE IF NOT EXISTS articles_fts USING fts5(
+    article_id UNINDEXED,
+    title,
+    excerpt,
+    content,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- AI 调用记录表（用于配额统计和成本核算）
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id TEXT PRIMARY KEY,
+    user_id TEXT, -- 系统任务（如向量同步）为 NULL
+    operation TEXT NOT NULL, -- summarize、chat、embed 等
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_chars INTEGER DEFAULT 0,
+    output_chars INTEGER DEFAULT 0,
+    latency_ms INTEGER DEFAULT 0,
+    cached BOOLEAN DEFAULT FALSE, -- 命中缓存的调用不计入配额
+    success BOOLEAN DEFAULT TRUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
 -- 文件表
 CREATE TABLE IF NOT EXISTS files (
     id TEXT PRIMARY KEY,
@@ -67,6 +193,7 @@ CREATE TABLE IF NOT EXISTS friend_links (
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     created_by TEXT,
+    moderation TEXT, -- 审核结果 (JSON)
     FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
 );
 
@@ -111,6 +238,29 @@ CREATE TABLE IF NOT EXISTS tags (
     FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
 );
 
+-- 系列表（多篇文章组成的系列教程）
+CREATE TABLE IF NOT EXISTS series (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    slug TEXT UNIQUE NOT NULL,
+    description TEXT,
+    cover_image TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_by TEXT,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 系列文章关联表（一篇文章最多属于一个系列）
+CREATE TABLE IF NOT EXISTS series_articles (
+    series_id TEXT NOT NULL,
+    article_id TEXT NOT NULL UNIQUE,
+    position INTEGER NOT NULL DEFAULT 0, -- 文章在系列中的顺序
+    PRIMARY KEY (series_id, article_id),
+    FOREIGN KEY (series_id) REFERENCES series(id) ON DELETE CASCADE,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
+);
+
 -- 页面表
 CREATE TABLE IF NOT EXISTS pages (
     id TEXT PRIMARY KEY,
@@ -120,6 +270,9 @@ CREATE TABLE IF NOT EXISTS pages (
     excerpt TEXT,
     meta_title TEXT,
     meta_description TEXT,
+    meta_keywords TEXT, -- JSON 数组字符串
+    og_title TEXT, -- Open Graph 分享标题
+    og_description TEXT, -- Open Graph 分享描述
     status TEXT CHECK (status IN ('draft', 'published', 'private')) DEFAULT 'draft',
     template TEXT DEFAULT 'default',
     order_index INTEGER DEFAULT 0,
@@ -151,10 +304,47 @@ CREATE TABLE IF NOT EXISTS friend_links (
     approved_at DATETIME,
     created_by TEXT,
     approved_by TEXT,
+    moderation TEXT, -- 审核结果 (JSON)
     FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
     FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL
 );
 
+-- Slug 重定向表（文章、页面、分类、标签改名后旧 slug 指向当前记录）
+CREATE TABLE IF NOT EXISTS slug_redirects (
+    id TEXT PRIMARY KEY,
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('article', 'page', 'category', 'tag')),
+    old_slug TEXT NOT NULL,
+    entity_id TEXT NOT NULL, -- 指向记录 ID 而不是新 slug，多次改名时不会形成重定向链
+    created_by TEXT, -- 自动记录时为修改 slug 的用户
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (entity_type, old_slug),
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 评论表
+CREATE TABLE IF NOT EXISTS comments (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    parent_id TEXT, -- 回复的评论，顶层评论为空
+    author_id TEXT, -- 匿名评论为空
+    author_name TEXT NOT NULL,
+    author_email TEXT,
+    author_website TEXT,
+    content TEXT NOT NULL,
+    status TEXT CHECK (status IN ('pending', 'approved', 'rejected', 'spam')) DEFAULT 'pending',
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    approved_at DATETIME,
+    approved_by TEXT,
+    moderation TEXT, -- 审核结果 (JSON)
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (parent_id) REFERENCES comments(id) ON DELETE CASCADE,
+    FOREIGN KEY (author_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
 -- 文章浏览统计表
 CREATE TABLE IF NOT EXISTS article_views (
     id TEXT PRIMARY KEY,
@@ -169,6 +359,18 @@ CREATE TABLE IF NOT EXISTS article_views (
     FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE
 );
 
+-- 文章点赞与表情回应表
+CREATE TABLE IF NOT EXISTS article_reactions (
+    id TEXT PRIMARY KEY,
+    article_id TEXT NOT NULL,
+    reaction TEXT NOT NULL, -- like、love、laugh 等
+    user_id TEXT, -- 登录用户
+    visitor_id TEXT, -- 匿名访客
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (article_id) REFERENCES articles(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
 -- 网站访问统计表
 CREATE TABLE IF NOT EXISTS site_analytics (
     id TEXT PRIMARY KEY,
@@ -202,9 +404,24 @@ CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
 
 CREATE INDEX IF NOT EXISTS idx_articles_slug ON articles(slug);
 CREATE INDEX IF NOT EXISTS idx_articles_author_id ON articles(author_id);
+CREATE INDEX IF NOT EXISTS idx_article_authors_user_id ON article_authors(user_id);
 CREATE INDEX IF NOT EXISTS idx_articles_status ON articles(status);
 CREATE INDEX IF NOT EXISTS idx_articles_category ON articles(category);
 CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles(published_at);
+CREATE INDEX IF NOT EXISTS idx_articles_status_published_at ON articles(status, published_at);
+CREATE INDEX IF NOT EXISTS idx_articles_language ON articles(language);
+CREATE INDEX IF NOT EXISTS idx_articles_reading_time ON articles(reading_time);
+
+CREATE INDEX IF NOT EXISTS idx_article_translations_language ON article_translations(language, status);
+
+CREATE INDEX IF NOT EXISTS idx_article_tags_tag_slug ON article_tags(tag_slug);
+
+CREATE INDEX IF NOT EXISTS idx_article_revisions_article_id ON article_revisions(article_id, revision_number);
+CREATE INDEX IF NOT EXISTS idx_article_status_transitions_article_id ON article_status_transitions(article_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_article_preview_links_article_id ON article_preview_links(article_id);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at);
 
 CREATE INDEX IF NOT EXISTS idx_files_uploaded_by ON files(uploaded_by);
 CREATE INDEX IF NOT EXISTS idx_files_type ON files(type);
@@ -222,16 +439,27 @@ CREATE INDEX IF NOT EXISTS idx_categories_order ON categories(order_index);
 
 CREATE INDEX IF NOT EXISTS idx_tags_slug ON tags(slug);
 CREATE INDEX IF NOT EXISTS idx_tags_order ON tags(order_index);
+CREATE INDEX IF NOT EXISTS idx_series_slug ON series(slug);
+CREATE INDEX IF NOT EXISTS idx_series_articles_series ON series_articles(series_id, position);
 
 CREATE INDEX IF NOT EXISTS idx_pages_slug ON pages(slug);
 CREATE INDEX IF NOT EXISTS idx_pages_status ON pages(status);
 CREATE INDEX IF NOT EXISTS idx_pages_order ON pages(order_index);
 CREATE INDEX IF NOT EXISTS idx_pages_parent ON pages(parent_id);
+CREATE INDEX IF NOT EXISTS idx_slug_redirects_entity ON slug_redirects(entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS idx_comments_article_id ON comments(article_id, status);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comments_status ON comments(status);
 
 CREATE INDEX IF NOT EXISTS idx_article_views_article_id ON article_views(article_id);
 CREATE INDEX IF NOT EXISTS idx_article_views_viewed_at ON article_views(viewed_at);
 CREATE INDEX IF NOT EXISTS idx_article_views_visitor_id ON article_views(visitor_id);
 
+CREATE INDEX IF NOT EXISTS idx_article_reactions_article_id ON article_reactions(article_id, reaction);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_reactions_user ON article_reactions(article_id, reaction, user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_article_reactions_visitor ON article_reactions(article_id, reaction, visitor_id);
+
 CREATE INDEX IF NOT EXISTS idx_site_analytics_date ON site_analytics(date);
 CREATE INDEX IF NOT EXISTS idx_site_analytics_page_path ON site_analytics(page_path);
 CREATE INDEX IF NOT EXISTS idx_site_analytics_date_path ON site_analytics(date, page_path);
@@ -274,7 +502,11 @@ INSERT OR IGNORE INTO settings (key, value, description) VALUES
 ('site_description', '现代化的技术博客平台', '网站描述'),
 ('max_file_size', '10485760', '最大文件上传大小 (10MB)'),
 ('allowed_file_types', '["image/jpeg","image/png","image/gif","image/webp","application/pdf","text/plain"]', '允许的文件类型'),
-('admin_emails', '[]', '管理员邮箱列表 (JSON 数组)');
+('admin_emails', '[]', '管理员邮箱列表 (JSON 数组)'),
+('moderation_threshold_spam', '0.9', '垃圾内容评分达到该值时自动拒绝'),
+('moderation_threshold_toxicity', '0.9', '攻击性内容评分达到该值时自动拒绝'),
+('moderation_threshold_link_farming', '0.9', '链接农场评分达到该值时自动拒绝'),
+('publish_min_role', 'admin', '可以直接发布文章和审核投稿的最低角色（admin 或 collaborator）');
 
 -- 创建触发器，自动更新 updated_at 字段
 CREATE TRIGGER IF NOT EXISTS update_users_updated_at 
@@ -1,6 +1,8 @@
 import { Env, Context } from './types';
 import { handleOptions, createErrorResponse } from './utils';
 import { authMiddleware, loggingMiddleware, corsMiddleware, rateLimitMiddleware } from './middleware/auth';
+import { createRateLimitMiddleware, RateLimitPresets } from './middleware/rate-limit';
+import { hasPermission } from './utils/jwt';
 
 // 导入路由处理器
 import {
@@ -15,6 +17,7 @@ import {
 
 import {
   uploadFile,
+  describeFile,
   getFiles,
   getFile,
   deleteFile,
@@ -26,25 +29,92 @@ import {
   generateTags,
   analyzeContent,
   translateText,
+  askBlog,
+  rewriteText,
+  continueWriting,
+  suggestTitles,
+  generateOutline,
+  proposeSeoMetadata,
+  getAIQuota,
+  getAIUsageReport,
+  updateUserAIQuota,
 } from './routes/ai';
 
 import {
   searchArticles,
   advancedSearch,
+  rebuildSearchIndex,
+  semanticSearch,
 } from './routes/search';
 
 import {
   getArticles,
   getArticleBySlug,
+  getRelatedArticles,
   createArticle,
   updateArticle,
   deleteArticle,
+  publishScheduledArticles,
+  backfillContentStats,
 } from './routes/articles';
 
+import {
+  getArticleRevisions,
+  getArticleRevision,
+  diffArticleRevisions,
+  restoreArticleRevision,
+} from './routes/article-revisions';
+
+import {
+  getReviewQueue,
+  submitArticleForReview,
+  approveArticle,
+  requestArticleChanges,
+  getArticleTransitions,
+} from './routes/article-reviews';
+
+import {
+  createPreviewLink,
+  getPreviewLinks,
+  revokePreviewLink,
+  getArticlePreview,
+} from './routes/article-previews';
+
+import {
+  getSlugRedirects,
+  createSlugRedirect,
+  deleteSlugRedirect,
+} from './routes/redirects';
+
+import {
+  getArticleTranslations,
+  translateArticle,
+  updateArticleTranslation,
+  deleteArticleTranslation,
+} from './routes/article-translations';
+
+import {
+  getArticleComments,
+  createComment,
+  getComments,
+  updateCommentStatus,
+  updateCommentsStatus,
+  deleteComment,
+} from './routes/comments';
+
+import {
+  likeArticle,
+  unlikeArticle,
+  getArticleReactions,
+  reactToArticle,
+  removeArticleReaction,
+} from './routes/reactions';
+
 import {
   getUsers,
   getUserById,
   updateUserRole,
+  updateUserPublishPermission,
   toggleUserStatus,
   getUserStats,
   deleteUser,
@@ -67,6 +137,15 @@ import {
   updateTagsOrder,
 } from './routes/tags';
 
+import {
+  getSeriesList,
+  getSeriesBySlug,
+  createSeries,
+  updateSeries,
+  updateSeriesArticles,
+  deleteSeries,
+} from './routes/series';
+
 import {
   getPages,
   getPageBySlug,
@@ -87,6 +166,7 @@ import {
   generateRSSFeed,
   generateAtomFeed,
   generateJSONFeed,
+  generateSeriesRSSFeed,
 } from './routes/rss';
 
 import {
@@ -102,6 +182,7 @@ import {
   generateArticlesSitemap,
   generateCategoriesSitemap,
   generateTagsSitemap,
+  generateSeriesSitemap,
   generateMultilingualSitemapIndex,
   generateLanguageSitemap,
 } from './routes/sitemap';
@@ -206,6 +287,13 @@ export default {
           maxRequests: 10, // 最多 10 次上传
         });
         response = await uploadFile(request, env, ctx, context);
+      } else if (path.match(/^\/api\/files\/[^/]+\/describe$/) && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 10,
+        });
+        const fileId = path.split('/')[3];
+        response = await describeFile(request, env, ctx, context, fileId);
       } else if (path === '/api/files' && method === 'GET') {
         response = await getFiles(request, env, ctx, context);
       } else if (path.startsWith('/api/files/') && method === 'GET') {
@@ -244,20 +332,170 @@ export default {
           maxRequests: 30,
         });
         response = await translateText(request, env, ctx, context);
+      } else if (path === '/api/ai/ask' && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 10,
+        });
+        response = await askBlog(request, env, ctx, context);
+      } else if (path === '/api/ai/rewrite' && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 20,
+        });
+        response = await rewriteText(request, env, ctx, context);
+      } else if (path === '/api/ai/continue' && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 20,
+        });
+        response = await continueWriting(request, env, ctx, context);
+      } else if (path === '/api/ai/titles' && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 20,
+        });
+        response = await suggestTitles(request, env, ctx, context);
+      } else if (path === '/api/ai/outline' && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 20,
+        });
+        response = await generateOutline(request, env, ctx, context);
+      } else if (path === '/api/ai/seo' && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 20,
+        });
+        response = await proposeSeoMetadata(request, env, ctx, context);
+      } else if (path === '/api/ai/quota' && method === 'GET') {
+        response = await getAIQuota(request, env, ctx, context);
+      } else if (path === '/api/ai/usage' && method === 'GET') {
+        response = await getAIUsageReport(request, env, ctx, context);
+      } else if (path.startsWith('/api/ai/quotas/') && method === 'PUT') {
+        const userId = path.split('/')[4];
+        response = await updateUserAIQuota(request, env, ctx, context, userId);
       }
       
       // 搜索相关路由
       else if (path === '/api/search' && method === 'GET') {
         response = await searchArticles(request, env, ctx, context);
+      } else if (path === '/api/search/semantic' && method === 'GET') {
+        // 每次语义检索都会调用向量模型，按 IP 限制频率
+        const semanticSearchRateLimit = createRateLimitMiddleware({
+          windowMs: 60 * 1000,
+          maxRequests: 20,
+          keyGenerator: (req) => `semantic_search_rate_limit:${req.headers.get('CF-Connecting-IP') || 'unknown'}`,
+        }, env);
+        response = await semanticSearchRateLimit(request) || undefined;
+        if (!response) {
+          response = await semanticSearch(request, env, ctx, context);
+        }
+      } else if (path === '/api/search/reindex' && method === 'POST') {
+        response = await rebuildSearchIndex(request, env, ctx, context);
       } else if (path === '/api/search' && method === 'POST') {
         response = await advancedSearch(request, env, ctx, context);
       }
 
+      // 文章预览路由（无需登录）
+      else if (path.match(/^\/api\/preview\/[^/]+$/) && method === 'GET') {
+        const token = path.split('/')[3];
+        response = await getArticlePreview(request, env, ctx, context, token);
+      }
+
+      // 审核队列路由
+      else if (path === '/api/reviews' && method === 'GET') {
+        response = await getReviewQueue(request, env, ctx, context);
+      }
+
       // 文章相关路由
       else if (path === '/api/articles' && method === 'GET') {
         response = await getArticles(request, env, ctx, context);
       } else if (path === '/api/articles' && method === 'POST') {
         response = await createArticle(request, env, ctx, context);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/comments$/) && method === 'GET') {
+        const articleId = path.split('/')[3];
+        response = await getArticleComments(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/comments$/) && method === 'POST') {
+        // 匿名评论应用严格速率限制
+        if (!context.user) {
+          const commentRateLimit = createRateLimitMiddleware({
+            ...RateLimitPresets.strict,
+            keyGenerator: (req) => `comment_rate_limit:${req.headers.get('CF-Connecting-IP') || 'unknown'}`,
+          }, env);
+          response = await commentRateLimit(request) || undefined;
+        }
+        if (!response) {
+          const articleId = path.split('/')[3];
+          response = await createComment(request, env, ctx, context, articleId);
+        }
+      } else if (path.match(/^\/api\/articles\/[^/]+\/like$/) && method === 'POST') {
+        const articleId = path.split('/')[3];
+        response = await likeArticle(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/like$/) && method === 'DELETE') {
+        const articleId = path.split('/')[3];
+        response = await unlikeArticle(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/reactions$/) && method === 'GET') {
+        const articleId = path.split('/')[3];
+        response = await getArticleReactions(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/reactions$/) && method === 'POST') {
+        const articleId = path.split('/')[3];
+        response = await reactToArticle(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/reactions$/) && method === 'DELETE') {
+        const articleId = path.split('/')[3];
+        response = await removeArticleReaction(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/related$/) && method === 'GET') {
+        const slug = path.split('/')[3];
+        response = await getRelatedArticles(request, env, ctx, context, slug);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/submit$/) && method === 'POST') {
+        const articleId = path.split('/')[3];
+        response = await submitArticleForReview(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/approve$/) && method === 'POST') {
+        const articleId = path.split('/')[3];
+        response = await approveArticle(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/request-changes$/) && method === 'POST') {
+        const articleId = path.split('/')[3];
+        response = await requestArticleChanges(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/transitions$/) && method === 'GET') {
+        const articleId = path.split('/')[3];
+        response = await getArticleTransitions(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/preview-link$/) && method === 'POST') {
+        const articleId = path.split('/')[3];
+        response = await createPreviewLink(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/preview-links$/) && method === 'GET') {
+        const articleId = path.split('/')[3];
+        response = await getPreviewLinks(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/preview-links\/[^/]+$/) && method === 'DELETE') {
+        const [, , , articleId, , linkId] = path.split('/');
+        response = await revokePreviewLink(request, env, ctx, context, articleId, linkId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/revisions$/) && method === 'GET') {
+        const articleId = path.split('/')[3];
+        response = await getArticleRevisions(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/revisions\/diff$/) && method === 'GET') {
+        const articleId = path.split('/')[3];
+        response = await diffArticleRevisions(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/revisions\/[^/]+$/) && method === 'GET') {
+        const [, , , articleId, , revisionId] = path.split('/');
+        response = await getArticleRevision(request, env, ctx, context, articleId, revisionId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/revisions\/[^/]+\/restore$/) && method === 'POST') {
+        const [, , , articleId, , revisionId] = path.split('/');
+        response = await restoreArticleRevision(request, env, ctx, context, articleId, revisionId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/translations$/) && method === 'GET') {
+        const articleId = path.split('/')[3];
+        response = await getArticleTranslations(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/translations$/) && method === 'POST') {
+        await rateLimitMiddleware(request, env, ctx, context, {
+          windowMs: 60 * 1000,
+          maxRequests: 5,
+        });
+        const articleId = path.split('/')[3];
+        response = await translateArticle(request, env, ctx, context, articleId);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/translations\/[^/]+$/) && method === 'PUT') {
+        const [, , , articleId, , language] = path.split('/');
+        response = await updateArticleTranslation(request, env, ctx, context, articleId, language);
+      } else if (path.match(/^\/api\/articles\/[^/]+\/translations\/[^/]+$/) && method === 'DELETE') {
+        const [, , , articleId, , language] = path.split('/');
+        response = await deleteArticleTranslation(request, env, ctx, context, articleId, language);
       } else if (path.startsWith('/api/articles/') && method === 'GET') {
         const slug = path.replace('/api/articles/', '');
         response = await getArticleBySlug(request, env, ctx, context, slug);
@@ -269,6 +507,19 @@ export default {
         response = await deleteArticle(request, env, ctx, context, articleId);
       }
 
+      // 评论审核路由
+      else if (path === '/api/comments' && method === 'GET') {
+        response = await getComments(request, env, ctx, context);
+      } else if (path === '/api/comments/batch-status' && method === 'PUT') {
+        response = await updateCommentsStatus(request, env, ctx, context);
+      } else if (path.match(/^\/api\/comments\/[^/]+\/status$/) && method === 'PUT') {
+        const commentId = path.split('/')[3];
+        response = await updateCommentStatus(request, env, ctx, context, commentId);
+      } else if (path.startsWith('/api/comments/') && method === 'DELETE') {
+        const commentId = path.replace('/api/comments/', '');
+        response = await deleteComment(request, env, ctx, context, commentId);
+      }
+
       // 用户管理路由
       else if (path === '/api/users' && method === 'GET') {
         response = await getUsers(request, env, ctx, context);
@@ -282,6 +533,9 @@ export default {
       } else if (path.startsWith('/api/users/') && path.endsWith('/role') && method === 'PUT') {
         const userId = path.replace('/api/users/', '').replace('/role', '');
         response = await updateUserRole(request, env, ctx, context, userId);
+      } else if (path.startsWith('/api/users/') && path.endsWith('/publish-permission') && method === 'PUT') {
+        const userId = path.replace('/api/users/', '').replace('/publish-permission', '');
+        response = await updateUserPublishPermission(request, env, ctx, context, userId);
       } else if (path.startsWith('/api/users/') && path.endsWith('/status') && method === 'PUT') {
         const userId = path.replace('/api/users/', '').replace('/status', '');
         response = await toggleUserStatus(request, env, ctx, context, userId);
@@ -324,6 +578,28 @@ export default {
         response = await deleteTag(request, env, ctx, context, tagId);
       }
 
+      // 系列管理路由
+      else if (path === '/api/series' && method === 'GET') {
+        response = await getSeriesList(request, env, ctx, context);
+      } else if (path === '/api/series' && method === 'POST') {
+        response = await createSeries(request, env, ctx, context);
+      } else if (path.match(/^\/api\/series\/[^/]+\/articles$/) && method === 'PUT') {
+        const seriesId = path.split('/')[3];
+        response = await updateSeriesArticles(request, env, ctx, context, seriesId);
+      } else if (path.match(/^\/api\/series\/[^/]+\/feed\.xml$/) && method === 'GET') {
+        const slug = path.split('/')[3];
+        response = await generateSeriesRSSFeed(request, env, ctx, context, slug);
+      } else if (path.startsWith('/api/series/') && method === 'GET') {
+        const slug = path.replace('/api/series/', '');
+        response = await getSeriesBySlug(request, env, ctx, context, slug);
+      } else if (path.startsWith('/api/series/') && method === 'PUT') {
+        const seriesId = path.replace('/api/series/', '');
+        response = await updateSeries(request, env, ctx, context, seriesId);
+      } else if (path.startsWith('/api/series/') && method === 'DELETE') {
+        const seriesId = path.replace('/api/series/', '');
+        response = await deleteSeries(request, env, ctx, context, seriesId);
+      }
+
       // 页面管理路由
       else if (path === '/api/pages' && method === 'GET') {
         response = await getPages(request, env, ctx, context);
@@ -340,11 +616,31 @@ export default {
         response = await deletePage(request, env, ctx, context, pageId);
       }
 
+      // Slug 重定向管理路由
+      else if (path === '/api/redirects' && method === 'GET') {
+        response = await getSlugRedirects(request, env, ctx, context);
+      } else if (path === '/api/redirects' && method === 'POST') {
+        response = await createSlugRedirect(request, env, ctx, context);
+      } else if (path.startsWith('/api/redirects/') && method === 'DELETE') {
+        const redirectId = path.replace('/api/redirects/', '');
+        response = await deleteSlugRedirect(request, env, ctx, context, redirectId);
+      }
+
       // 友情链接管理路由
       else if (path === '/api/friend-links' && method === 'GET') {
         response = await getFriendLinks(request, env, ctx, context);
       } else if (path === '/api/friend-links' && method === 'POST') {
-        response = await createFriendLink(request, env, ctx, context);
+        // 非管理员提交的友链需要审核（可能调用 AI），应用严格速率限制
+        if (!context.user || !hasPermission(context.user.role, 'admin')) {
+          const friendLinkRateLimit = createRateLimitMiddleware({
+            ...RateLimitPresets.strict,
+            keyGenerator: (req) => `friend_link_rate_limit:${req.headers.get('CF-Connecting-IP') || 'unknown'}`,
+          }, env);
+          response = await friendLinkRateLimit(request) || undefined;
+        }
+        if (!response) {
+          response = await createFriendLink(request, env, ctx, context);
+        }
       } else if (path === '/api/friend-links/batch-status' && method === 'PUT') {
         response = await updateFriendLinksStatus(request, env, ctx, context);
       } else if (path.startsWith('/api/friend-links/') && method === 'PUT') {
@@ -392,6 +688,8 @@ export default {
         response = await generateCategoriesSitemap(request, env, ctx, context);
       } else if (path === '/sitemap-tags.xml' && method === 'GET') {
         response = await generateTagsSitemap(request, env, ctx, context);
+      } else if (path === '/sitemap-series.xml' && method === 'GET') {
+        response = await generateSeriesSitemap(request, env, ctx, context);
       } else if (path === '/sitemap-multilingual.xml' && method === 'GET') {
         response = await generateMultilingualSitemapIndex(request, env, ctx, context);
       } else if (path.match(/^\/sitemap-(zh|en|ja)\.xml$/) && method === 'GET') {
@@ -495,6 +793,18 @@ export default {
     console.log('Scheduled event triggered:', event.cron);
     
     try {
+      // 发布到期的定时文章
+      const publishedCount = await publishScheduledArticles(env);
+      if (publishedCount > 0) {
+        console.log(`Published ${publishedCount} scheduled articles`);
+      }
+
+      // 补算旧文章的目录、字数和阅读时间
+      const backfilledCount = await backfillContentStats(env);
+      if (backfilledCount > 0) {
+        console.log(`Computed content stats for ${backfilledCount} articles`);
+      }
+
       // 清理过期的会话
       await cleanupExpiredSessions(env);
       
@@ -1,6 +1,34 @@
-import { Env, Context, ApiError, SummaryRequest } from '../types';
-import { AIService } from '../services/ai';
-import { createSuccessResponse, createErrorResponse, parseJSON } from '../utils';
+import {
+  Env,
+  Context,
+  ApiError,
+  SummaryRequest,
+  ArticlePassage,
+  WritingOptions,
+  TaxonomyTerm,
+  TagSuggestion,
+} from '../types';
+import { AIService, AIStreamHooks, TagTaxonomy } from '../services/ai';
+import { AIUsageService } from '../services/ai-usage';
+import { RetrievalService } from '../services/retrieval';
+import { DatabaseService } from '../services/database';
+import { createSuccessResponse, createErrorResponse, parseJSON, generateId } from '../utils';
+import { createSSEResponse } from '../utils/sse';
+import { hasPermission } from '../utils/jwt';
+import { canEditArticle } from './articles';
+
+// 问答问题的最大长度
+const MAX_QUESTION_LENGTH = 500;
+
+// 写作助手语气和语言参数的最大长度
+const MAX_WRITING_OPTION_LENGTH = 50;
+
+// AI 调用统计的最大天数
+const MAX_USAGE_REPORT_DAYS = 90;
+
+// 续写长度（字数）的允许范围
+const MIN_CONTINUE_LENGTH = 50;
+const MAX_CONTINUE_LENGTH = 2000;
 
 /**
  * 生成文章摘要
@@ -22,16 +50,19 @@ export async function generateSummary(
       throw new ApiError('Content is required', 400);
     }
 
-    const aiService = new AIService(env.AI);
-    const summary = await aiService.generateSummary(requestData);
+    const aiService = await AIService.create(env, context.user);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const summary = await aiService.generateSummary(requestData, hooks);
 
-    return createSuccessResponse({
-      data: summary,
-      usage: {
-        promptTokens: Math.floor(requestData.content.length / 4),
-        completionTokens: Math.floor(summary.length / 4),
-        totalTokens: Math.floor((requestData.content.length + summary.length) / 4),
-      },
+      return {
+        data: summary,
+        usage: {
+          promptTokens: Math.floor(requestData.content.length / 4),
+          completionTokens: Math.floor(summary.length / 4),
+          totalTokens: Math.floor((requestData.content.length + summary.length) / 4),
+        },
+      };
     });
   } catch (error) {
     console.error('Generate summary error:', error);
@@ -41,6 +72,7 @@ export async function generateSummary(
 
 /**
  * 生成标签建议
+ * 建议按已有的标签和分类排序并给出置信度；autoCreate 为 true 时自动创建新标签（需要协作者权限）
  */
 export async function generateTags(
   request: Request,
@@ -53,22 +85,41 @@ export async function generateTags(
       throw new ApiError('Authentication required', 401);
     }
 
-    const { title, content } = await parseJSON(request);
+    const { title, content, autoCreate = false, limit = 8 } = await parseJSON(request);
     
     if (!title || !content) {
       throw new ApiError('Title and content are required', 400);
     }
 
-    const aiService = new AIService(env.AI);
-    const tags = await aiService.generateTags(title, content);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 20) {
+      throw new ApiError('Limit must be between 1 and 20', 400);
+    }
+
+    if (autoCreate && !hasPermission(context.user.role, 'collaborator')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
 
-    return createSuccessResponse({
-      data: tags,
-      usage: {
-        promptTokens: Math.floor((title.length + content.length) / 4),
-        completionTokens: Math.floor(tags.join('').length / 4),
-        totalTokens: Math.floor((title.length + content.length + tags.join('').length) / 4),
-      },
+    const user = context.user;
+    const aiService = await AIService.create(env, user);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const taxonomy = await loadTagTaxonomy(env);
+      const result = await aiService.suggestTags(title, content, taxonomy, { limit }, hooks);
+
+      if (autoCreate) {
+        await createSuggestedTags(env, result.tags, user.id);
+      }
+
+      const tagNames = result.tags.map(tag => tag.name).join('');
+
+      return {
+        data: result,
+        usage: {
+          promptTokens: Math.floor((title.length + content.length) / 4),
+          completionTokens: Math.floor(tagNames.length / 4),
+          totalTokens: Math.floor((title.length + content.length + tagNames.length) / 4),
+        },
+      };
     });
   } catch (error) {
     console.error('Generate tags error:', error);
@@ -96,16 +147,19 @@ export async function analyzeContent(
       throw new ApiError('Title and content are required', 400);
     }
 
-    const aiService = new AIService(env.AI);
-    const analysis = await aiService.analyzeContent(title, content);
+    const aiService = await AIService.create(env, context.user);
 
-    return createSuccessResponse({
-      data: analysis,
-      usage: {
-        promptTokens: Math.floor((title.length + content.length) / 4),
-        completionTokens: 100, // 估算值
-        totalTokens: Math.floor((title.length + content.length) / 4) + 100,
-      },
+    return respondWithAIResult(request, ctx, async hooks => {
+      const analysis = await aiService.analyzeContent(title, content, hooks);
+
+      return {
+        data: analysis,
+        usage: {
+          promptTokens: Math.floor((title.length + content.length) / 4),
+          completionTokens: 100, // 估算值
+          totalTokens: Math.floor((title.length + content.length) / 4) + 100,
+        },
+      };
     });
   } catch (error) {
     console.error('Analyze content error:', error);
@@ -133,21 +187,513 @@ export async function translateText(
       throw new ApiError('Text is required', 400);
     }
 
-    const aiService = new AIService(env.AI);
-    const translatedText = await aiService.translateText(text, targetLanguage);
+    const aiService = await AIService.create(env, context.user);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const translatedText = await aiService.translateText(text, targetLanguage, hooks);
 
-    return createSuccessResponse({
-      originalText: text,
-      translatedText,
-      targetLanguage,
-      usage: {
-        promptTokens: Math.floor(text.length / 4),
-        completionTokens: Math.floor(translatedText.length / 4),
-        totalTokens: Math.floor((text.length + translatedText.length) / 4),
-      },
+      return {
+        originalText: text,
+        translatedText,
+        targetLanguage,
+        usage: {
+          promptTokens: Math.floor(text.length / 4),
+          completionTokens: Math.floor(translatedText.length / 4),
+          totalTokens: Math.floor((text.length + translatedText.length) / 4),
+        },
+      };
     });
   } catch (error) {
     console.error('Translate text error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to translate text', 500);
   }
 }
+
+/**
+ * 改写文本
+ */
+export async function rewriteText(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    requireCollaborator(context);
+
+    const body = await parseJSON(request);
+    const { text, instruction } = body;
+
+    if (!text || !text.trim()) {
+      throw new ApiError('Text is required', 400);
+    }
+
+    const options = parseWritingOptions(body);
+
+    const aiService = await AIService.create(env, context.user);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const rewritten = await aiService.rewriteText(text, { ...options, instruction }, hooks);
+
+      return { data: rewritten, ...options };
+    });
+  } catch (error) {
+    console.error('Rewrite text error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to rewrite text', 500);
+  }
+}
+
+/**
+ * 续写文章
+ */
+export async function continueWriting(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    requireCollaborator(context);
+
+    const body = await parseJSON(request);
+    const { title = '', content, maxLength } = body;
+
+    if (!content || !content.trim()) {
+      throw new ApiError('Content is required', 400);
+    }
+
+    if (
+      maxLength !== undefined &&
+      (typeof maxLength !== 'number' || !Number.isInteger(maxLength) || maxLength < MIN_CONTINUE_LENGTH || maxLength > MAX_CONTINUE_LENGTH)
+    ) {
+      throw new ApiError(`maxLength must be an integer between ${MIN_CONTINUE_LENGTH} and ${MAX_CONTINUE_LENGTH}`, 400);
+    }
+
+    const options = parseWritingOptions(body);
+
+    const aiService = await AIService.create(env, context.user);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const continuation = await aiService.continueWriting(title, content, { ...options, maxLength }, hooks);
+
+      return { data: continuation, ...options };
+    });
+  } catch (error) {
+    console.error('Continue writing error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to continue writing', 500);
+  }
+}
+
+/**
+ * 生成标题建议
+ */
+export async function suggestTitles(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    requireCollaborator(context);
+
+    const body = await parseJSON(request);
+    const { title, content, count = 5 } = body;
+
+    if (!content || !content.trim()) {
+      throw new ApiError('Content is required', 400);
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > 10) {
+      throw new ApiError('Count must be between 1 and 10', 400);
+    }
+
+    const options = parseWritingOptions(body);
+
+    const aiService = await AIService.create(env, context.user);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const titles = await aiService.suggestTitles(content, { ...options, title, count }, hooks);
+
+      return { data: titles, ...options };
+    });
+  } catch (error) {
+    console.error('Suggest titles error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to suggest titles', 500);
+  }
+}
+
+/**
+ * 生成文章大纲
+ */
+export async function generateOutline(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    requireCollaborator(context);
+
+    const body = await parseJSON(request);
+    const { title, content } = body;
+
+    if (!title || !title.trim()) {
+      throw new ApiError('Title is required', 400);
+    }
+
+    const options = parseWritingOptions(body);
+
+    const aiService = await AIService.create(env, context.user);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const outline = await aiService.generateOutline(title, content, options, hooks);
+
+      return { data: outline, ...options };
+    });
+  } catch (error) {
+    console.error('Generate outline error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate outline', 500);
+  }
+}
+
+/**
+ * 生成文章或页面的 SEO 元数据建议（不会保存，作者确认后通过文章或页面的更新接口保存）
+ * 传入 articleId 或 pageId 时使用已保存的内容，并在 current 中返回当前的 SEO 字段以便对比
+ */
+export async function proposeSeoMetadata(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    requireCollaborator(context);
+
+    const body = await parseJSON(request);
+    const { articleId, pageId } = body;
+
+    let source: Record<string, any> | null = null;
+    if (articleId || pageId) {
+      const table = articleId ? 'articles' : 'pages';
+      source = await env.DB.prepare(`SELECT * FROM ${table} WHERE id = ?`).bind(articleId || pageId).first();
+      if (!source) {
+        throw new ApiError(articleId ? 'Article not found' : 'Page not found', 404);
+      }
+
+      const canEdit = articleId
+        ? await canEditArticle(new DatabaseService(env.DB), { id: source.id, author_id: source.author_id }, context.user!)
+        : source.created_by === context.user!.id || hasPermission(context.user!.role, 'admin');
+      if (!canEdit) {
+        throw new ApiError('Insufficient permissions', 403);
+      }
+    }
+
+    const title = body.title ?? source?.title;
+    const content = body.content ?? source?.content;
+
+    if (!title || !content) {
+      throw new ApiError('Title and content are required', 400);
+    }
+
+    const current = source
+      ? {
+          meta_title: source.meta_title,
+          meta_description: source.meta_description,
+          meta_keywords: JSON.parse(source.meta_keywords || '[]'),
+          og_title: source.og_title,
+          og_description: source.og_description,
+        }
+      : null;
+
+    const aiService = await AIService.create(env, context.user!);
+
+    return respondWithAIResult(request, ctx, async hooks => {
+      const proposal = await aiService.proposeSeoMetadata(title, content, {
+        excerpt: body.excerpt ?? source?.excerpt,
+        keywords: source?.tags ? JSON.parse(source.tags) : undefined,
+        language: body.language ?? source?.language,
+      }, hooks);
+
+      return { data: proposal, current };
+    });
+  } catch (error) {
+    console.error('Propose SEO metadata error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to propose SEO metadata', 500);
+  }
+}
+
+/**
+ * 基于博客文章的问答（SSE 流式返回）
+ * 事件顺序：citations（引用的文章）→ token（增量文本）→ done（完整答案和引用）
+ */
+export async function askBlog(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    const { question } = await parseJSON(request);
+
+    if (!question || !question.trim()) {
+      throw new ApiError('Question is required', 400);
+    }
+
+    if (question.length > MAX_QUESTION_LENGTH) {
+      throw new ApiError(`Question must be at most ${MAX_QUESTION_LENGTH} characters`, 400);
+    }
+
+    // 匿名访客的问答只受速率限制，登录用户计入每日配额
+    const aiService = await AIService.create(env, context.user || null);
+
+    return createSSEResponse(ctx, async writer => {
+      const passages = await new RetrievalService(env).retrievePassages(question.trim());
+      const citations = buildCitations(passages);
+
+      await writer.send('citations', citations);
+
+      if (passages.length === 0) {
+        await writer.send('done', {
+          answer: '抱歉，博客中没有找到与这个问题相关的文章。',
+          citations: [],
+        });
+        return;
+      }
+
+      let answer = '';
+
+      for await (const token of aiService.streamAnswer(question.trim(), passages)) {
+        answer += token;
+        await writer.send('token', { text: token });
+      }
+
+      await writer.send('done', { answer, citations });
+    });
+  } catch (error) {
+    console.error('Ask blog error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to answer question', 500);
+  }
+}
+
+/**
+ * 获取当前用户的每日 AI 配额使用情况
+ */
+export async function getAIQuota(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const quota = await new AIUsageService(env).getQuota(context.user);
+
+    return createSuccessResponse(quota);
+  } catch (error) {
+    console.error('Get AI quota error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get AI quota', 500);
+  }
+}
+
+/**
+ * 获取 AI 调用统计（仅管理员）
+ */
+export async function getAIUsageReport(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const url = new URL(request.url);
+    const days = parseInt(url.searchParams.get('days') || '7', 10);
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_REPORT_DAYS) {
+      throw new ApiError(`Days must be between 1 and ${MAX_USAGE_REPORT_DAYS}`, 400);
+    }
+
+    const report = await new AIUsageService(env).getReport(days);
+
+    return createSuccessResponse(report);
+  } catch (error) {
+    console.error('Get AI usage report error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get AI usage report', 500);
+  }
+}
+
+/**
+ * 设置用户的每日 AI 配额（仅管理员）
+ * dailyQuota 为 null 时恢复为角色默认配额，-1 表示不限制
+ */
+export async function updateUserAIQuota(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  userId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const { dailyQuota } = await parseJSON(request);
+
+    if (dailyQuota !== null && (!Number.isInteger(dailyQuota) || dailyQuota < -1)) {
+      throw new ApiError('Daily quota must be an integer of at least -1, or null', 400);
+    }
+
+    const user = await env.DB.prepare('SELECT id, role FROM users WHERE id = ?').bind(userId).first() as any;
+    if (!user) {
+      throw new ApiError('User not found', 404);
+    }
+
+    const usageService = new AIUsageService(env);
+    await usageService.setUserQuota(userId, dailyQuota);
+
+    return createSuccessResponse(await usageService.getQuota(user), 'AI quota updated successfully');
+  } catch (error) {
+    console.error('Update AI quota error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to update AI quota', 500);
+  }
+}
+
+/**
+ * 返回 AI 结果：请求带 ?stream=1 时使用 SSE 流式返回
+ * 事件顺序：token（增量文本）→ fallback（AI 调用失败改用备用方案时）→ done（与普通响应 data 相同的结构化结果）
+ */
+async function respondWithAIResult(
+  request: Request,
+  ctx: any,
+  produce: (hooks: AIStreamHooks) => Promise<any>
+): Promise<Response> {
+  if (new URL(request.url).searchParams.get('stream') !== '1') {
+    return createSuccessResponse(await produce({}));
+  }
+
+  return createSSEResponse(ctx, async writer => {
+    const result = await produce({
+      onToken: text => writer.send('token', { text }),
+      onFallback: reason => writer.send('fallback', { reason }),
+    });
+    await writer.send('done', result);
+  });
+}
+
+/**
+ * 写作助手仅对协作者及以上角色开放
+ */
+function requireCollaborator(context: Context): void {
+  if (!context.user) {
+    throw new ApiError('Authentication required', 401);
+  }
+
+  if (!hasPermission(context.user.role, 'collaborator')) {
+    throw new ApiError('Insufficient permissions', 403);
+  }
+}
+
+/**
+ * 解析写作助手的语气和输出语言
+ */
+function parseWritingOptions(body: Record<string, any>): Required<WritingOptions> {
+  const tone = body.tone ?? body.style ?? 'professional';
+  const language = body.language ?? body.targetLanguage ?? 'zh';
+
+  if (typeof tone !== 'string' || !tone.trim() || tone.length > MAX_WRITING_OPTION_LENGTH) {
+    throw new ApiError('Invalid tone', 400);
+  }
+
+  if (typeof language !== 'string' || !language.trim() || language.length > MAX_WRITING_OPTION_LENGTH) {
+    throw new ApiError('Invalid language', 400);
+  }
+
+  return { tone: tone.trim(), language: language.trim() };
+}
+
+/**
+ * 根据检索到的段落生成引用列表（按文章合并段落编号）
+ */
+function buildCitations(passages: ArticlePassage[]) {
+  const citations = new Map<string, { slug: string; title: string; passages: number[] }>();
+
+  for (const passage of passages) {
+    const citation = citations.get(passage.article_id)
+      || { slug: passage.slug, title: passage.title, passages: [] };
+    citation.passages.push(passage.index);
+    citations.set(passage.article_id, citation);
+  }
+
+  return Array.from(citations.values());
+}
+
+/**
+ * 读取标签建议使用的分类体系：全部标签、分类，以及各分类下文章使用过的标签
+ */
+async function loadTagTaxonomy(env: Env): Promise<TagTaxonomy> {
+  const [tags, categories, categoryTags] = await Promise.all([
+    env.DB.prepare('SELECT id, name, slug FROM tags').all(),
+    env.DB.prepare('SELECT id, name, slug FROM categories').all(),
+    env.DB.prepare(`
+      SELECT a.category AS category_slug, at.tag_slug
+      FROM articles a
+      JOIN article_tags at ON at.article_id = a.id
+      WHERE a.category IS NOT NULL
+      GROUP BY a.category, at.tag_slug
+    `).all(),
+  ]);
+
+  const tagsByCategory: Record<string, string[]> = {};
+  for (const row of categoryTags.results as any[]) {
+    (tagsByCategory[row.category_slug] ||= []).push(row.tag_slug);
+  }
+
+  return {
+    tags: tags.results as unknown as TaxonomyTerm[],
+    categories: categories.results as unknown as TaxonomyTerm[],
+    categoryTags: tagsByCategory,
+  };
+}
+
+/**
+ * 创建建议中的新标签，并回填标签 ID
+ */
+async function createSuggestedTags(env: Env, suggestions: TagSuggestion[], userId: string): Promise<void> {
+  const newTags = suggestions.filter(suggestion => !suggestion.existing);
+  if (newTags.length === 0) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+
+  const results = await env.DB.batch(newTags.map(tag =>
+    env.DB.prepare(`
+      INSERT OR IGNORE INTO tags (id, name, slug, description, color, order_index, created_at, updated_at, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(generateId(), tag.name, tag.slug, null, '#10b981', 0, now, now, userId)
+  ));
+
+  // 并发请求可能已经创建了同名标签，以数据库中的记录为准；只有本次实际插入的才标记为新建
+  for (const [index, tag] of newTags.entries()) {
+    const row = await env.DB.prepare('SELECT id FROM tags WHERE slug = ?').bind(tag.slug).first() as any;
+    if (row) {
+      tag.tag_id = row.id;
+      tag.created = Number(results[index]?.meta?.changes || 0) > 0;
+    }
+  }
+}
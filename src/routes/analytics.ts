@@ -226,6 +226,8 @@ export async function getDashboardStats(
         COUNT(*) as total,
         SUM(CASE WHEN status = 'published' THEN 1 ELSE 0 END) as published,
         SUM(CASE WHEN status = 'draft' THEN 1 ELSE 0 END) as draft,
+        SUM(CASE WHEN status = 'scheduled' THEN 1 ELSE 0 END) as scheduled,
+        SUM(CASE WHEN status = 'in_review' THEN 1 ELSE 0 END) as in_review,
         SUM(CASE WHEN created_at >= datetime('now', '-30 days') THEN 1 ELSE 0 END) as recent
       FROM articles
     `).first();
@@ -332,8 +334,7 @@ export async function getPopularTags(
         break;
     }
 
-    // 这个查询比较复杂，因为标签存储在JSON数组中
-    // 我们需要展开JSON数组并统计每个标签的使用次数
+    // 通过文章标签关联表统计每个标签的使用次数
     const popularTags = await env.DB.prepare(`
       SELECT 
         t.name,
@@ -342,7 +343,8 @@ export async function getPopularTags(
         COUNT(a.id) as article_count,
         COALESCE(SUM(a.view_count), 0) as total_views
       FROM tags t
-      LEFT JOIN articles a ON JSON_EXTRACT(a.tags, '$') LIKE '%"' || t.slug || '"%'
+      LEFT JOIN article_tags at ON at.tag_slug = t.slug
+      LEFT JOIN articles a ON a.id = at.article_id
         AND a.status = 'published' ${dateFilter}
       GROUP BY t.id, t.name, t.slug, t.color
       ORDER BY article_count DESC, total_views DESC
@@ -0,0 +1,184 @@
+import { Env, Context, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
+import { createSuccessResponse, createErrorResponse, parseJSON, generateId } from '../utils';
+import { JWT } from '../utils/jwt';
+import { buildArticleDetail, canEditArticle } from './articles';
+
+// 预览链接的默认有效期和最长有效期（小时）
+const DEFAULT_PREVIEW_EXPIRES_IN_HOURS = 7 * 24;
+const MAX_PREVIEW_EXPIRES_IN_HOURS = 30 * 24;
+
+/**
+ * 创建文章预览链接（作者、合著者或管理员）
+ * 持有链接的人无需登录即可查看这篇未发布的文章
+ */
+export async function createPreviewLink(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    const article = await getEditableArticle(dbService, env, articleId, context);
+
+    const body: Record<string, unknown> = (await request.clone().text()) ? await parseJSON(request) : {};
+    const expiresInHours = body.expires_in ?? DEFAULT_PREVIEW_EXPIRES_IN_HOURS;
+    if (
+      typeof expiresInHours !== 'number' ||
+      !Number.isInteger(expiresInHours) ||
+      expiresInHours < 1 ||
+      expiresInHours > MAX_PREVIEW_EXPIRES_IN_HOURS
+    ) {
+      throw new ApiError(`expires_in must be an integer between 1 and ${MAX_PREVIEW_EXPIRES_IN_HOURS} hours`, 400);
+    }
+
+    const expiresIn = expiresInHours * 60 * 60;
+    const link = await dbService.createPreviewLink({
+      id: generateId(),
+      article_id: article.id,
+      created_by: context.user.id,
+      expires_at: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    });
+
+    const token = await new JWT(env.JWT_SECRET).signPreviewToken({
+      articleId: article.id,
+      jti: link.id,
+    }, expiresIn);
+
+    return createSuccessResponse({
+      ...link,
+      token,
+      url: `${env.FRONTEND_URL}/preview/${token}`,
+    }, 'Preview link created');
+  } catch (error) {
+    console.error('Create preview link error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to create preview link', 500);
+  }
+}
+
+/**
+ * 获取文章的预览链接（作者、合著者或管理员）
+ */
+export async function getPreviewLinks(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    await getEditableArticle(dbService, env, articleId, context);
+
+    const links = await dbService.getPreviewLinks(articleId);
+
+    return createSuccessResponse(links);
+  } catch (error) {
+    console.error('Get preview links error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get preview links', 500);
+  }
+}
+
+/**
+ * 撤销文章预览链接（作者、合著者或管理员）
+ */
+export async function revokePreviewLink(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string,
+  linkId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    await getEditableArticle(dbService, env, articleId, context);
+
+    const link = await dbService.getPreviewLink(linkId);
+    if (!link || link.article_id !== articleId) {
+      throw new ApiError('Preview link not found', 404);
+    }
+
+    await dbService.revokePreviewLink(linkId);
+
+    return createSuccessResponse({ message: 'Preview link revoked successfully' });
+  } catch (error) {
+    console.error('Revoke preview link error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to revoke preview link', 500);
+  }
+}
+
+/**
+ * 通过预览 Token 查看文章（无需登录，不计入浏览量）
+ */
+export async function getArticlePreview(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  token: string
+): Promise<Response> {
+  try {
+    let payload;
+    try {
+      payload = await new JWT(env.JWT_SECRET).verifyPreviewToken(token);
+    } catch {
+      throw new ApiError('Preview link is invalid or has expired', 404);
+    }
+
+    // Token 签名有效时仍需检查链接是否已被撤销
+    const dbService = new DatabaseService(env.DB);
+    const link = await dbService.getPreviewLink(payload.jti);
+    if (
+      !link ||
+      link.article_id !== payload.articleId ||
+      link.revoked_at ||
+      new Date(link.expires_at).getTime() <= Date.now()
+    ) {
+      throw new ApiError('Preview link is invalid or has expired', 404);
+    }
+
+    const article = await dbService.getArticleById(link.article_id);
+    if (!article) {
+      throw new ApiError('Preview link is invalid or has expired', 404);
+    }
+
+    return createSuccessResponse({
+      ...await buildArticleDetail(request, dbService, env, article),
+      preview_expires_at: link.expires_at,
+    });
+  } catch (error) {
+    console.error('Get article preview error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get article preview', 500);
+  }
+}
+
+/**
+ * 获取文章并检查当前用户能否管理其预览链接
+ */
+async function getEditableArticle(dbService: DatabaseService, env: Env, articleId: string, context: Context): Promise<any> {
+  const article = await env.DB.prepare('SELECT * FROM articles WHERE id = ?').bind(articleId).first();
+  if (!article) {
+    throw new ApiError('Article not found', 404);
+  }
+
+  if (!await canEditArticle(dbService, article, context.user!)) {
+    throw new ApiError('Insufficient permissions', 403);
+  }
+
+  return article;
+}
@@ -0,0 +1,256 @@
+import { Env, Context, Article, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
+import { EmbeddingService } from '../services/embedding';
+import { createSuccessResponse, createErrorResponse, parseJSON } from '../utils';
+import { invalidateFeedCache } from '../utils/feed-cache';
+import { canPublishArticles } from '../utils/publishing';
+import { canEditArticle, recordRevision, resolvePublishState } from './articles';
+
+// 审核意见的长度上限
+const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+/**
+ * 获取审核队列（有发布权限的用户）
+ */
+export async function getReviewQueue(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    await requireReviewer(env, context);
+
+    const url = new URL(request.url);
+    const page = parseInt(url.searchParams.get('page') || '1');
+    const limit = parseInt(url.searchParams.get('limit') || '20');
+
+    const dbService = new DatabaseService(env.DB);
+    const result = await dbService.getReviewQueue({
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error('Get review queue error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get review queue', 500);
+  }
+}
+
+/**
+ * 提交文章审核（作者、合著者或管理员）
+ */
+export async function submitArticleForReview(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const article = await getArticle(env, articleId);
+    if (!await canEditArticle(new DatabaseService(env.DB), article, context.user)) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    if (article.status !== 'draft') {
+      throw new ApiError('Only draft articles can be submitted for review', 400);
+    }
+
+    const { comment } = await parseReviewBody(request);
+    const updatedArticle = await transitionArticle(env, ctx, article, { status: 'in_review' }, comment, context.user.id);
+
+    return createSuccessResponse(updatedArticle, 'Article submitted for review');
+  } catch (error) {
+    console.error('Submit article for review error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to submit article for review', 500);
+  }
+}
+
+/**
+ * 审核通过并发布文章（指定未来的 published_at 时改为定时发布）
+ */
+export async function approveArticle(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    await requireReviewer(env, context);
+
+    const article = await getArticle(env, articleId);
+    if (article.status !== 'in_review') {
+      throw new ApiError('Article is not in review', 400);
+    }
+
+    const { comment, published_at } = await parseReviewBody(request);
+    const publishState = resolvePublishState('published', published_at);
+
+    const updatedArticle = await transitionArticle(env, ctx, article, publishState, comment, context.user!.id);
+
+    return createSuccessResponse(updatedArticle, 'Article approved');
+  } catch (error) {
+    console.error('Approve article error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to approve article', 500);
+  }
+}
+
+/**
+ * 退回文章修改，文章回到草稿状态
+ */
+export async function requestArticleChanges(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    await requireReviewer(env, context);
+
+    const article = await getArticle(env, articleId);
+    if (article.status !== 'in_review') {
+      throw new ApiError('Article is not in review', 400);
+    }
+
+    const { comment } = await parseReviewBody(request);
+    if (!comment) {
+      throw new ApiError('A comment is required when requesting changes', 400);
+    }
+
+    const updatedArticle = await transitionArticle(env, ctx, article, { status: 'draft' }, comment, context.user!.id);
+
+    return createSuccessResponse(updatedArticle, 'Changes requested');
+  } catch (error) {
+    console.error('Request article changes error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to request article changes', 500);
+  }
+}
+
+/**
+ * 获取文章的状态变更记录（作者、管理员或审核人）
+ */
+export async function getArticleTransitions(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const article = await getArticle(env, articleId);
+    const dbService = new DatabaseService(env.DB);
+    if (!await canEditArticle(dbService, article, context.user) && !await canPublishArticles(env, context.user)) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const transitions = await dbService.getArticleTransitions(articleId);
+
+    return createSuccessResponse(transitions);
+  } catch (error) {
+    console.error('Get article transitions error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get article transitions', 500);
+  }
+}
+
+/**
+ * 检查当前用户是否有审核权限（与发布权限相同）
+ */
+async function requireReviewer(env: Env, context: Context): Promise<void> {
+  if (!context.user) {
+    throw new ApiError('Authentication required', 401);
+  }
+
+  if (!await canPublishArticles(env, context.user)) {
+    throw new ApiError('Insufficient permissions', 403);
+  }
+}
+
+/**
+ * 获取文章原始记录
+ */
+async function getArticle(env: Env, articleId: string): Promise<any> {
+  const article = await env.DB.prepare('SELECT * FROM articles WHERE id = ?').bind(articleId).first();
+  if (!article) {
+    throw new ApiError('Article not found', 404);
+  }
+
+  return article;
+}
+
+/**
+ * 解析审核请求体（请求体可以为空）
+ */
+async function parseReviewBody(request: Request): Promise<{ comment?: string; published_at?: string }> {
+  const body: Record<string, unknown> = (await request.clone().text()) ? await parseJSON(request) : {};
+  const { comment, published_at } = body;
+
+  if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+    throw new ApiError('Invalid comment', 400);
+  }
+
+  const trimmed = typeof comment === 'string' ? comment.trim() : '';
+  if (trimmed.length > MAX_REVIEW_COMMENT_LENGTH) {
+    throw new ApiError(`comment must be at most ${MAX_REVIEW_COMMENT_LENGTH} characters`, 400);
+  }
+
+  return {
+    comment: trimmed || undefined,
+    published_at: typeof published_at === 'string' ? published_at : undefined,
+  };
+}
+
+/**
+ * 变更文章状态，并记录状态变更、修订，发布时刷新 Feed 缓存和文章向量
+ */
+async function transitionArticle(
+  env: Env,
+  ctx: any,
+  article: any,
+  state: { status: Article['status']; published_at?: string | null },
+  comment: string | undefined,
+  userId: string
+): Promise<Article | null> {
+  const dbService = new DatabaseService(env.DB);
+  const publishedAt = state.published_at !== undefined ? state.published_at : article.published_at;
+
+  // 只在状态仍与读取时一致时更新，避免并发的审核操作重复记录状态变更和修订
+  const result = await env.DB.prepare('UPDATE articles SET status = ?, published_at = ?, updated_at = ? WHERE id = ? AND status = ?')
+    .bind(state.status, publishedAt, new Date().toISOString(), article.id, article.status)
+    .run();
+
+  if (!result.meta?.changes) {
+    throw new ApiError('Article status has changed, reload and try again', 409);
+  }
+
+  await dbService.recordArticleTransition({
+    article_id: article.id,
+    from_status: article.status,
+    to_status: state.status,
+    comment,
+    created_by: userId,
+  });
+
+  const updatedArticle = await dbService.getArticleBySlug(article.slug);
+  if (updatedArticle) {
+    await recordRevision(dbService, article, updatedArticle, ['status'], userId);
+
+    if (updatedArticle.status === 'published') {
+      ctx.waitUntil(invalidateFeedCache(env));
+      ctx.waitUntil(new EmbeddingService(env).syncArticle(updatedArticle));
+    }
+  }
+
+  return updatedArticle;
+}
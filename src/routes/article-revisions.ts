@@ -0,0 +1,234 @@
+import { Env, Context, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
+import { EmbeddingService } from '../services/embedding';
+import { createSuccessResponse, createErrorResponse } from '../utils';
+import { getContentStatsFields } from '../utils/content-stats';
+import { diffLines } from '../utils/diff';
+import { canPublishArticles } from '../utils/publishing';
+import { canEditArticle, recordRevision } from './articles';
+
+// 参与比较的文章字段
+const COMPARED_FIELDS = ['title', 'slug', 'excerpt', 'category', 'tags', 'status', 'cover_image'];
+
+// 恢复修订时回写的字段（slug 和状态保持不变，避免影响已发布链接）
+const RESTORABLE_FIELDS = ['title', 'content', 'excerpt', 'category', 'tags', 'cover_image'];
+
+/**
+ * 获取文章修订列表
+ */
+export async function getArticleRevisions(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    await getEditableArticle(env, context, articleId);
+
+    const url = new URL(request.url);
+    const page = parseInt(url.searchParams.get('page') || '1');
+    const limit = parseInt(url.searchParams.get('limit') || '20');
+
+    const dbService = new DatabaseService(env.DB);
+    const result = await dbService.getArticleRevisions(articleId, {
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error('Get article revisions error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get article revisions', 500);
+  }
+}
+
+/**
+ * 获取单个文章修订
+ */
+export async function getArticleRevision(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string,
+  revisionId: string
+): Promise<Response> {
+  try {
+    await getEditableArticle(env, context, articleId);
+
+    const dbService = new DatabaseService(env.DB);
+    const revision = await dbService.getArticleRevision(articleId, revisionId);
+    if (!revision) {
+      throw new ApiError('Revision not found', 404);
+    }
+
+    return createSuccessResponse(revision);
+  } catch (error) {
+    console.error('Get article revision error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get article revision', 500);
+  }
+}
+
+/**
+ * 比较两个文章修订
+ * 未指定 to 时与文章当前内容比较
+ */
+export async function diffArticleRevisions(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const article = await getEditableArticle(env, context, articleId);
+
+    const url = new URL(request.url);
+    const fromId = url.searchParams.get('from');
+    const toId = url.searchParams.get('to');
+
+    if (!fromId) {
+      throw new ApiError('Revision "from" is required', 400);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    const fromRevision = await dbService.getArticleRevision(articleId, fromId);
+    if (!fromRevision) {
+      throw new ApiError('Revision not found', 404);
+    }
+
+    let toRevision: any = {
+      ...article,
+      tags: JSON.parse(article.tags || '[]'),
+    };
+    if (toId) {
+      toRevision = await dbService.getArticleRevision(articleId, toId);
+      if (!toRevision) {
+        throw new ApiError('Revision not found', 404);
+      }
+    }
+
+    const fields: Record<string, { from: any; to: any }> = {};
+    for (const field of COMPARED_FIELDS) {
+      const fromValue = (fromRevision as any)[field] ?? null;
+      const toValue = toRevision[field] ?? null;
+      if (JSON.stringify(fromValue) !== JSON.stringify(toValue)) {
+        fields[field] = { from: fromValue, to: toValue };
+      }
+    }
+
+    return createSuccessResponse({
+      from: {
+        id: fromRevision.id,
+        revision_number: fromRevision.revision_number,
+        created_by: fromRevision.created_by,
+        created_at: fromRevision.created_at,
+      },
+      to: toId
+        ? {
+            id: toRevision.id,
+            revision_number: toRevision.revision_number,
+            created_by: toRevision.created_by,
+            created_at: toRevision.created_at,
+          }
+        : { id: 'current', updated_at: article.updated_at },
+      fields,
+      content: diffLines(fromRevision.content, toRevision.content),
+    });
+  } catch (error) {
+    console.error('Diff article revisions error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to diff article revisions', 500);
+  }
+}
+
+/**
+ * 恢复文章修订
+ */
+export async function restoreArticleRevision(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string,
+  revisionId: string
+): Promise<Response> {
+  try {
+    const article = await getEditableArticle(env, context, articleId);
+
+    const dbService = new DatabaseService(env.DB);
+    const revision = await dbService.getArticleRevision(articleId, revisionId);
+    if (!revision) {
+      throw new ApiError('Revision not found', 404);
+    }
+
+    const updates: any = {};
+    for (const field of RESTORABLE_FIELDS) {
+      const value = field === 'tags'
+        ? JSON.stringify(revision.tags)
+        : (revision as any)[field] ?? null;
+      if (value !== (article[field] ?? null)) {
+        updates[field] = value;
+      }
+    }
+
+    const changedFields = Object.keys(updates);
+    if (changedFields.length === 0) {
+      const currentArticle = await dbService.getArticleBySlug(article.slug);
+      return createSuccessResponse(currentArticle, 'Article already matches this revision');
+    }
+
+    // 与编辑文章相同，没有发布权限的用户不能直接改动已发布或定时发布的内容
+    if ((article.status === 'published' || article.status === 'scheduled') && !await canPublishArticles(env, context.user!)) {
+      throw new ApiError('Editing a published article requires approval, move it back to draft and submit it for review', 403);
+    }
+
+    updates.updated_at = new Date().toISOString();
+    if (changedFields.includes('content')) {
+      Object.assign(updates, getContentStatsFields(updates.content));
+    }
+
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = Object.values(updates);
+
+    await env.DB.prepare(`UPDATE articles SET ${setClause} WHERE id = ?`)
+      .bind(...values, articleId)
+      .run();
+
+    if (changedFields.includes('tags')) {
+      await dbService.setArticleTags(articleId, revision.tags);
+    }
+
+    const restoredArticle = await dbService.getArticleBySlug(article.slug);
+    if (restoredArticle) {
+      await dbService.indexArticleForSearch(restoredArticle);
+      ctx.waitUntil(new EmbeddingService(env).syncArticle(restoredArticle));
+      await recordRevision(dbService, article, restoredArticle, changedFields, context.user!.id, revision.id);
+    }
+
+    return createSuccessResponse(restoredArticle, `Restored revision ${revision.revision_number}`);
+  } catch (error) {
+    console.error('Restore article revision error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to restore article revision', 500);
+  }
+}
+
+/**
+ * 获取当前用户可编辑的文章（只有作者或管理员可以访问修订历史）
+ */
+async function getEditableArticle(env: Env, context: Context, articleId: string): Promise<any> {
+  if (!context.user) {
+    throw new ApiError('Authentication required', 401);
+  }
+
+  const article = await env.DB.prepare('SELECT * FROM articles WHERE id = ?').bind(articleId).first();
+  if (!article) {
+    throw new ApiError('Article not found', 404);
+  }
+
+  if (!await canEditArticle(new DatabaseService(env.DB), article, context.user)) {
+    throw new ApiError('Insufficient permissions', 403);
+  }
+
+  return article;
+}
@@ -0,0 +1,207 @@
+import { Env, Context, ApiError, ArticleTranslation } from '../types';
+import { DatabaseService } from '../services/database';
+import { AIService } from '../services/ai';
+import { ArticleTranslationService } from '../services/translation';
+import { createSuccessResponse, createErrorResponse, parseJSON, hashString } from '../utils';
+import { invalidateFeedCache } from '../utils/feed-cache';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '../utils/languages';
+import { canEditArticle } from './articles';
+
+// 翻译允许的状态
+const TRANSLATION_STATUSES: ArticleTranslation['status'][] = ['draft', 'published'];
+
+/**
+ * 获取文章的翻译列表
+ * outdated 表示原文在翻译之后又有修改
+ */
+export async function getArticleTranslations(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const article = await getEditableArticle(env, context, articleId);
+
+    const dbService = new DatabaseService(env.DB);
+    const translations = await dbService.getArticleTranslations(articleId);
+    const sourceHash = await hashTranslationSource(article);
+
+    return createSuccessResponse({
+      language: article.language || DEFAULT_LANGUAGE,
+      translations: translations.map(translation => ({
+        ...translation,
+        outdated: translation.source_hash !== sourceHash,
+      })),
+    });
+  } catch (error) {
+    console.error('Get article translations error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get article translations', 500);
+  }
+}
+
+/**
+ * 使用 AI 翻译文章并保存为指定语言的版本（已有该语言的翻译时覆盖）
+ */
+export async function translateArticle(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const article = await getEditableArticle(env, context, articleId);
+
+    const { language, publish = false } = await parseJSON(request);
+
+    if (!isSupportedLanguage(language)) {
+      throw new ApiError('Unsupported language', 400);
+    }
+
+    if (language === (article.language || DEFAULT_LANGUAGE)) {
+      throw new ApiError('Article is already written in this language', 400);
+    }
+
+    const aiService = await AIService.create(env, context.user!);
+    const translated = await new ArticleTranslationService(aiService).translateArticle(article, language);
+
+    const dbService = new DatabaseService(env.DB);
+    const translation = await dbService.saveArticleTranslation({
+      article_id: article.id,
+      language,
+      ...translated,
+      status: publish ? 'published' : 'draft',
+      source: 'ai',
+      source_updated_at: article.updated_at,
+      source_hash: await hashTranslationSource(article),
+      created_by: context.user!.id,
+    });
+
+    if (article.status === 'published' && publish) {
+      ctx.waitUntil(invalidateFeedCache(env));
+    }
+
+    return createSuccessResponse(translation, 'Article translated successfully');
+  } catch (error) {
+    console.error('Translate article error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to translate article', 500);
+  }
+}
+
+/**
+ * 人工编辑或发布文章翻译
+ */
+export async function updateArticleTranslation(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string,
+  language: string
+): Promise<Response> {
+  try {
+    const article = await getEditableArticle(env, context, articleId);
+
+    const dbService = new DatabaseService(env.DB);
+    const existing = await dbService.getArticleTranslation(articleId, language);
+    if (!existing) {
+      throw new ApiError('Translation not found', 404);
+    }
+
+    const { title, excerpt, content, status } = await parseJSON(request);
+
+    if (status !== undefined && !TRANSLATION_STATUSES.includes(status)) {
+      throw new ApiError('Invalid translation status', 400);
+    }
+
+    if ((title !== undefined && !title) || (content !== undefined && !content)) {
+      throw new ApiError('Title and content cannot be empty', 400);
+    }
+
+    // 只修改状态时保留译文来源
+    const contentChanged = [title, excerpt, content].some(value => value !== undefined);
+
+    const translation = await dbService.saveArticleTranslation({
+      ...existing,
+      title: title ?? existing.title,
+      excerpt: excerpt ?? existing.excerpt,
+      content: content ?? existing.content,
+      status: status ?? existing.status,
+      source: contentChanged ? 'manual' : existing.source,
+      source_updated_at: contentChanged ? article.updated_at : existing.source_updated_at,
+      source_hash: contentChanged ? await hashTranslationSource(article) : existing.source_hash,
+    });
+
+    if (article.status === 'published' && (existing.status === 'published' || translation.status === 'published')) {
+      ctx.waitUntil(invalidateFeedCache(env));
+    }
+
+    return createSuccessResponse(translation, 'Translation updated successfully');
+  } catch (error) {
+    console.error('Update article translation error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to update article translation', 500);
+  }
+}
+
+/**
+ * 删除文章翻译
+ */
+export async function deleteArticleTranslation(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string,
+  language: string
+): Promise<Response> {
+  try {
+    const article = await getEditableArticle(env, context, articleId);
+
+    const dbService = new DatabaseService(env.DB);
+    const existing = await dbService.getArticleTranslation(articleId, language);
+    if (!existing) {
+      throw new ApiError('Translation not found', 404);
+    }
+
+    await dbService.deleteArticleTranslation(articleId, language);
+
+    if (article.status === 'published' && existing.status === 'published') {
+      ctx.waitUntil(invalidateFeedCache(env));
+    }
+
+    return createSuccessResponse(null, 'Translation deleted successfully');
+  } catch (error) {
+    console.error('Delete article translation error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to delete article translation', 500);
+  }
+}
+
+/**
+ * 计算原文标题、摘要和正文的哈希，译文保存的哈希与之不同时说明原文在翻译之后又有修改
+ * （浏览量、点赞数等更新同样会改变 updated_at，不能用它判断）
+ */
+async function hashTranslationSource(article: any): Promise<string> {
+  return hashString(JSON.stringify([article.title, article.excerpt ?? '', article.content]));
+}
+
+/**
+ * 获取当前用户可编辑的文章（只有作者、合著者或管理员可以管理翻译）
+ */
+async function getEditableArticle(env: Env, context: Context, articleId: string): Promise<any> {
+  if (!context.user) {
+    throw new ApiError('Authentication required', 401);
+  }
+
+  const article = await env.DB.prepare('SELECT * FROM articles WHERE id = ?').bind(articleId).first();
+  if (!article) {
+    throw new ApiError('Article not found', 404);
+  }
+
+  if (!await canEditArticle(new DatabaseService(env.DB), article, context.user)) {
+    throw new ApiError('Insufficient permissions', 403);
+  }
+
+  return article;
+}
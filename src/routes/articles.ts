@@ -1,8 +1,38 @@
-import { Env, Context, ApiError } from '../types';
+import { Env, Context, Article, ArticleAuthorRole, ApiError, User } from '../types';
 import { DatabaseService } from '../services/database';
 import { AIService } from '../services/ai';
+import { EmbeddingService } from '../services/embedding';
 import { createSuccessResponse, createErrorResponse, parseJSON, generateSlug } from '../utils';
 import { hasPermission } from '../utils/jwt';
+import { invalidateFeedCache } from '../utils/feed-cache';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '../utils/languages';
+import { parseSeoFields } from '../utils/seo';
+import { getContentHtml } from '../utils/content-cache';
+import { getContentStatsFields } from '../utils/content-stats';
+import { canPublishArticles } from '../utils/publishing';
+import { getSlugRedirectResponse } from '../utils/slug-redirects';
+
+// 文章允许的状态
+const ARTICLE_STATUSES: Article['status'][] = ['draft', 'in_review', 'scheduled', 'published', 'archived'];
+
+// 需要发布权限才能设置的状态，没有权限的用户需要先投稿审核
+const PUBLISHING_STATUSES: Article['status'][] = ['scheduled', 'published'];
+
+// 文章作者的署名角色
+const ARTICLE_AUTHOR_ROLES: ArticleAuthorRole[] = ['author', 'editor', 'translator'];
+
+// 单篇文章最多的作者数
+const MAX_ARTICLE_AUTHORS = 20;
+
+// 写入全文搜索索引的字段
+const SEARCH_INDEXED_FIELDS = ['title', 'excerpt', 'content'];
+
+// 文章列表支持的排序方式
+const ARTICLE_SORT_ORDERS: Record<string, string> = {
+  latest: 'published_at DESC',
+  reading_time_asc: 'reading_time ASC, published_at DESC',
+  reading_time_desc: 'reading_time DESC, published_at DESC',
+};
 
 /**
  * 获取文章列表
@@ -20,6 +50,11 @@ export async function getArticles(
     const status = url.searchParams.get('status') || 'published';
     const category = url.searchParams.get('category') || '';
     const author_id = url.searchParams.get('author_id') || '';
+    const sort = url.searchParams.get('sort') || 'latest';
+
+    if (!ARTICLE_SORT_ORDERS[sort]) {
+      throw new ApiError('Invalid sort', 400);
+    }
 
     const dbService = new DatabaseService(env.DB);
     
@@ -27,7 +62,9 @@ export async function getArticles(
     const options: any = {
       limit,
       offset: (page - 1) * limit,
-      orderBy: 'published_at DESC',
+      orderBy: ARTICLE_SORT_ORDERS[sort],
+      min_reading_time: parseReadingTime(url.searchParams.get('min_reading_time'), 'min_reading_time'),
+      max_reading_time: parseReadingTime(url.searchParams.get('max_reading_time'), 'max_reading_time'),
     };
 
     // 权限检查：非管理员只能查看已发布的文章
@@ -46,6 +83,18 @@ export async function getArticles(
     }
 
     const result = await dbService.getArticles(options);
+
+    // 附加作者列表和表情回应统计
+    const articleIds = result.items.map(article => article.id);
+    const [authors, reactionCounts] = await Promise.all([
+      dbService.getArticleAuthors(articleIds),
+      dbService.getReactionCounts(articleIds),
+    ]);
+    result.items = result.items.map(article => ({
+      ...article,
+      authors: authors[article.id] || [],
+      reactions: reactionCounts[article.id] || {},
+    }));
     
     return createSuccessResponse(result);
   } catch (error) {
@@ -69,15 +118,19 @@ export async function getArticleBySlug(
     const article = await dbService.getArticleBySlug(slug);
     
     if (!article) {
+      // 标题修改后 slug 会变化，旧 slug 重定向到当前 slug（仅当前用户能查看改名后的文章时）
+      const redirect = await getSlugRedirectResponse(request, env, 'article', slug, async targetSlug => {
+        const target = await dbService.getArticleBySlug(targetSlug);
+        return !!target && await canViewArticle(env, dbService, target, context);
+      });
+      if (redirect) {
+        return redirect;
+      }
       throw new ApiError('Article not found', 404);
     }
 
-    // 权限检查：未发布的文章只有作者和管理员可以查看
-    if (article.status !== 'published') {
-      if (!context.user || 
-          (article.author_id !== context.user.id && !hasPermission(context.user.role, 'admin'))) {
-        throw new ApiError('Article not found', 404);
-      }
+    if (!await canViewArticle(env, dbService, article, context)) {
+      throw new ApiError('Article not found', 404);
     }
 
     // 增加浏览量（异步执行，不影响响应）
@@ -89,13 +142,129 @@ export async function getArticleBySlug(
       );
     }
 
-    return createSuccessResponse(article);
+    return createSuccessResponse(await buildArticleDetail(request, dbService, env, article));
   } catch (error) {
     console.error('Get article error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to get article', 500);
   }
 }
 
+/**
+ * 判断当前用户能否查看文章：已发布的文章所有人可见，未发布的文章只有作者和管理员可以查看，待审核的文章审核人也可以查看
+ */
+async function canViewArticle(env: Env, dbService: DatabaseService, article: Article, context: Context): Promise<boolean> {
+  if (article.status === 'published') {
+    return true;
+  }
+
+  if (!context.user) {
+    return false;
+  }
+
+  const isReviewer = article.status === 'in_review' && await canPublishArticles(env, context.user);
+  return isReviewer || canEditArticle(dbService, article, context.user);
+}
+
+/**
+ * 组装文章详情的响应：附加反应数、作者、系列导航和可用语言，?lang= 指定其他语言时返回对应的译文
+ */
+export async function buildArticleDetail(
+  request: Request,
+  dbService: DatabaseService,
+  env: Env,
+  article: Article
+): Promise<Record<string, any>> {
+  const reactionCounts = await dbService.getReactionCounts([article.id]);
+  article.reactions = reactionCounts[article.id] || {};
+  article.authors = (await dbService.getArticleAuthors([article.id]))[article.id] || [];
+  article.series = await dbService.getArticleSeriesNavigation(article.id);
+
+  const originalLanguage = article.language || DEFAULT_LANGUAGE;
+  const translationLanguages = await dbService.getPublishedTranslationLanguages([article.id]);
+  const availableLanguages = [originalLanguage, ...(translationLanguages[article.id] || [])];
+
+  // ?lang= 指定其他语言时返回对应的译文，没有该语言的已发布译文时返回原文
+  const language = new URL(request.url).searchParams.get('lang');
+  if (language && language !== originalLanguage && availableLanguages.includes(language)) {
+    const translation = await dbService.getArticleTranslation(article.id, language);
+    if (translation) {
+      // SEO 字段只有原文版本，译文使用译文的标题和摘要
+      return {
+        ...article,
+        title: translation.title,
+        excerpt: translation.excerpt,
+        content: translation.content,
+        content_html: await getContentHtml(env, translation.content),
+        toc: translation.toc,
+        word_count: translation.word_count,
+        reading_time: translation.reading_time,
+        meta_title: translation.title,
+        meta_description: translation.excerpt,
+        meta_keywords: [],
+        og_title: translation.title,
+        og_description: translation.excerpt,
+        language,
+        original_language: originalLanguage,
+        available_languages: availableLanguages,
+      };
+    }
+  }
+
+  return {
+    ...article,
+    content_html: await getContentHtml(env, article.content),
+    language: originalLanguage,
+    original_language: originalLanguage,
+    available_languages: availableLanguages,
+  };
+}
+
+/**
+ * 获取相关文章
+ * 优先按文章向量的语义相似度推荐，向量不可用时按共同标签推荐
+ */
+export async function getRelatedArticles(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  slug: string
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '5'), 20);
+
+    const dbService = new DatabaseService(env.DB);
+    const article = await dbService.getArticleBySlug(slug);
+
+    if (!article || article.status !== 'published') {
+      throw new ApiError('Article not found', 404);
+    }
+
+    let related: (Article & { score?: number })[] = [];
+
+    try {
+      const matches = await new EmbeddingService(env).findRelated(article, limit);
+      const scores = new Map(matches.map(match => [match.id, match.score]));
+      related = (await dbService.getPublishedArticlesByIds(matches.map(match => match.id)))
+        .map(item => ({ ...item, score: scores.get(item.id) }));
+    } catch (error) {
+      console.warn('Semantic related articles failed, falling back to tags:', error);
+    }
+
+    if (related.length === 0) {
+      related = await dbService.getArticlesSharingTags(article.id, limit);
+    }
+
+    return createSuccessResponse({
+      articles: related.map(({ content, ...item }) => item),
+    });
+  } catch (error) {
+    console.error('Get related articles error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get related articles', 500);
+  }
+}
+
 /**
  * 创建文章
  */
@@ -115,12 +284,34 @@ export async function createArticle(
     }
 
     const articleData = await parseJSON(request);
-    const { title, content, excerpt, category, tags, status = 'draft', cover_image } = articleData;
+    const {
+      title,
+      content,
+      excerpt,
+      category,
+      tags,
+      status = 'draft',
+      cover_image,
+      published_at,
+      language = DEFAULT_LANGUAGE,
+    } = articleData;
 
     if (!title || !content) {
       throw new ApiError('Title and content are required', 400);
     }
 
+    if (!isSupportedLanguage(language)) {
+      throw new ApiError('Unsupported language', 400);
+    }
+
+    const seoFields = parseSeoFields(articleData);
+    const authors = await parseArticleAuthors(env, articleData.authors, context.user.id);
+
+    const publishState = resolvePublishState(status, published_at);
+    if (PUBLISHING_STATUSES.includes(publishState.status) && !await canPublishArticles(env, context.user)) {
+      throw new ApiError('Publishing requires approval, submit the article for review instead', 403);
+    }
+
     const dbService = new DatabaseService(env.DB);
     
     // 生成 slug
@@ -138,7 +329,7 @@ export async function createArticle(
     let finalExcerpt = excerpt;
     if (!finalExcerpt && content) {
       try {
-        const aiService = new AIService(env.AI);
+        const aiService = await AIService.create(env, context.user);
         finalExcerpt = await aiService.generateSummary({
           content,
           maxLength: 150,
@@ -157,15 +348,44 @@ export async function createArticle(
       excerpt: finalExcerpt,
       category: category || 'uncategorized',
       tags: Array.isArray(tags) ? tags : [],
-      status,
+      status: publishState.status,
       cover_image,
       author_id: context.user.id,
-      published_at: status === 'published' ? new Date().toISOString() : undefined,
+      published_at: publishState.published_at || undefined,
       view_count: 0,
       like_count: 0,
+      language,
+      meta_title: seoFields.meta_title ?? undefined,
+      meta_description: seoFields.meta_description ?? undefined,
+      meta_keywords: seoFields.meta_keywords ? JSON.parse(seoFields.meta_keywords) : [],
+      og_title: seoFields.og_title ?? undefined,
+      og_description: seoFields.og_description ?? undefined,
+    });
+    await dbService.setArticleAuthors(article.id, authors);
+    article.authors = (await dbService.getArticleAuthors([article.id]))[article.id] || [];
+
+    // 记录初始修订
+    await dbService.createArticleRevision(article, {
+      changed_fields: ['title', 'content', 'excerpt', 'category', 'tags', 'status', 'cover_image'],
+      created_by: context.user.id,
+      created_at: article.created_at,
     });
+    await dbService.recordArticleTransition({
+      article_id: article.id,
+      from_status: null,
+      to_status: article.status,
+      created_by: context.user.id,
+    });
+
+    if (article.status === 'published') {
+      ctx.waitUntil(invalidateFeedCache(env));
+      ctx.waitUntil(new EmbeddingService(env).syncArticle(article));
+    }
 
-    return createSuccessResponse(article);
+    return createSuccessResponse({
+      ...article,
+      content_html: await getContentHtml(env, article.content),
+    });
   } catch (error) {
     console.error('Create article error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to create article', 500);
@@ -195,13 +415,32 @@ export async function updateArticle(
       throw new ApiError('Article not found', 404);
     }
 
-    // 权限检查：只有作者或管理员可以编辑
-    if (existingArticle.author_id !== context.user.id && !hasPermission(context.user.role, 'admin')) {
+    // 权限检查：只有作者（包括合著者）或管理员可以编辑
+    if (!await canEditArticle(dbService, existingArticle, context.user)) {
       throw new ApiError('Insufficient permissions', 403);
     }
 
     const updateData = await parseJSON(request);
-    const { title, content, excerpt, category, tags, status, cover_image } = updateData;
+    const { title, content, excerpt, category, tags, status, cover_image, published_at, language } = updateData;
+
+    // 只有创建者和管理员可以修改作者列表
+    let authors: { user_id: string; role: ArticleAuthorRole }[] | undefined;
+    if (updateData.authors !== undefined) {
+      if (existingArticle.author_id !== context.user.id && !hasPermission(context.user.role, 'admin')) {
+        throw new ApiError('Only the article owner can change its authors', 403);
+      }
+      authors = await parseArticleAuthors(env, updateData.authors, existingArticle.author_id);
+    }
+
+    if (language !== undefined && !isSupportedLanguage(language)) {
+      throw new ApiError('Unsupported language', 400);
+    }
+
+    // 原文语言不能与已有的译文语言相同
+    if (language !== undefined && language !== existingArticle.language
+        && await dbService.getArticleTranslation(articleId, language)) {
+      throw new ApiError('A translation in this language already exists', 400);
+    }
 
     // 构建更新数据
     const updates: any = {
@@ -228,13 +467,41 @@ export async function updateArticle(
     if (category !== undefined) updates.category = category;
     if (tags !== undefined) updates.tags = JSON.stringify(Array.isArray(tags) ? tags : []);
     if (cover_image !== undefined) updates.cover_image = cover_image;
-
-    if (status !== undefined) {
-      updates.status = status;
-      // 如果从草稿变为发布，设置发布时间
-      if (status === 'published' && existingArticle.status !== 'published') {
-        updates.published_at = new Date().toISOString();
+    if (language !== undefined) updates.language = language;
+    Object.assign(updates, parseSeoFields(updateData));
+
+    if (status !== undefined || published_at !== undefined) {
+      const nextStatus = status ?? existingArticle.status;
+      // 定时文章被直接发布时使用当前时间，否则沿用原有发布时间
+      const fallbackPublishedAt = existingArticle.status === 'scheduled' && nextStatus === 'published'
+        ? null
+        : existingArticle.published_at;
+      const publishState = resolvePublishState(nextStatus, published_at, fallbackPublishedAt);
+      if (publishState.status !== existingArticle.status && PUBLISHING_STATUSES.includes(publishState.status)
+          && !await canPublishArticles(env, context.user)) {
+        throw new ApiError('Publishing requires approval, submit the article for review instead', 403);
       }
+
+      updates.status = publishState.status;
+      updates.published_at = publishState.published_at;
+    }
+
+    // 记录本次实际改动的字段
+    const changedFields = Object.keys(updates).filter(
+      key => key !== 'updated_at' && updates[key] !== existingArticle[key]
+    );
+
+    // 没有发布权限的用户不能直接修改已发布或定时发布的文章，需先改回草稿再提交审核
+    const resultingStatus: Article['status'] = updates.status ?? existingArticle.status;
+    if (PUBLISHING_STATUSES.includes(existingArticle.status) && PUBLISHING_STATUSES.includes(resultingStatus)
+        && changedFields.some(field => field !== 'status')
+        && !await canPublishArticles(env, context.user)) {
+      throw new ApiError('Editing a published article requires approval, move it back to draft and submit it for review', 403);
+    }
+
+    // 正文变化时重新计算目录、字数和阅读时间（不计入修订的改动字段）
+    if (changedFields.includes('content')) {
+      Object.assign(updates, getContentStatsFields(updates.content));
     }
 
     // 执行更新
@@ -245,10 +512,52 @@ export async function updateArticle(
       .bind(...values, articleId)
       .run();
 
+    if (changedFields.includes('tags')) {
+      await dbService.setArticleTags(articleId, JSON.parse(updates.tags));
+    }
+
+    if (authors) {
+      await dbService.setArticleAuthors(articleId, authors);
+    }
+
+    if (changedFields.includes('slug')) {
+      await dbService.recordSlugRedirect('article', articleId, existingArticle.slug, updates.slug, context.user.id);
+    }
+
     // 获取更新后的文章
     const updatedArticle = await dbService.getArticleBySlug(updates.slug || existingArticle.slug);
 
-    return createSuccessResponse(updatedArticle);
+    if (updatedArticle && changedFields.some(field => SEARCH_INDEXED_FIELDS.includes(field))) {
+      await dbService.indexArticleForSearch(updatedArticle);
+    }
+
+    // 内容或发布状态变化时刷新文章向量
+    if (updatedArticle && changedFields.some(field => SEARCH_INDEXED_FIELDS.includes(field) || field === 'status')) {
+      ctx.waitUntil(new EmbeddingService(env).syncArticle(updatedArticle));
+    }
+
+    if (updatedArticle && changedFields.length > 0) {
+      await recordRevision(dbService, existingArticle, updatedArticle, changedFields, context.user.id);
+    }
+
+    if (changedFields.includes('status')) {
+      await dbService.recordArticleTransition({
+        article_id: articleId,
+        from_status: existingArticle.status,
+        to_status: updates.status,
+        created_by: context.user.id,
+      });
+    }
+
+    if (existingArticle.status === 'published' || updatedArticle?.status === 'published') {
+      ctx.waitUntil(invalidateFeedCache(env));
+    }
+
+    return createSuccessResponse(updatedArticle && {
+      ...updatedArticle,
+      content_html: await getContentHtml(env, updatedArticle.content),
+      authors: (await dbService.getArticleAuthors([articleId]))[articleId] || [],
+    });
   } catch (error) {
     console.error('Update article error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to update article', 500);
@@ -285,6 +594,13 @@ export async function deleteArticle(
 
     // 删除文章
     await env.DB.prepare('DELETE FROM articles WHERE id = ?').bind(articleId).run();
+    await dbService.removeArticleFromSearchIndex(articleId);
+    await dbService.deleteSlugRedirectsFor('article', articleId);
+    ctx.waitUntil(new EmbeddingService(env).removeArticle(articleId));
+
+    if (article.status === 'published') {
+      ctx.waitUntil(invalidateFeedCache(env));
+    }
 
     return createSuccessResponse({ message: 'Article deleted successfully' });
   } catch (error) {
@@ -292,3 +608,217 @@ export async function deleteArticle(
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to delete article', 500);
   }
 }
+
+/**
+ * 记录文章修订
+ * 对于启用修订历史之前创建的文章，先补记一条原始版本
+ */
+export async function recordRevision(
+  dbService: DatabaseService,
+  previousArticle: any,
+  updatedArticle: Article,
+  changedFields: string[],
+  userId: string | undefined,
+  restoredFrom?: string
+): Promise<void> {
+  const { items } = await dbService.getArticleRevisions(updatedArticle.id, { limit: 1 });
+  if (items.length === 0) {
+    await dbService.createArticleRevision(previousArticle, {
+      changed_fields: [],
+      created_by: previousArticle.author_id,
+      created_at: previousArticle.updated_at,
+    });
+  }
+
+  await dbService.createArticleRevision(updatedArticle, {
+    changed_fields: changedFields,
+    created_by: userId,
+    restored_from: restoredFrom,
+  });
+}
+
+/**
+ * 发布到期的定时文章
+ * 由定时任务调用，返回发布的文章数量
+ */
+export async function publishScheduledArticles(env: Env): Promise<number> {
+  const now = new Date().toISOString();
+  const dueArticles = await env.DB.prepare(`
+    SELECT * FROM articles
+    WHERE status = 'scheduled' AND published_at <= ?
+  `).bind(now).all();
+
+  if (dueArticles.results.length === 0) {
+    return 0;
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const embeddingService = new EmbeddingService(env);
+
+  for (const article of dueArticles.results) {
+    await env.DB.prepare(`
+      UPDATE articles SET status = 'published', updated_at = ? WHERE id = ? AND status = 'scheduled'
+    `).bind(now, article.id).run();
+
+    const publishedArticle = await dbService.getArticleBySlug(article.slug);
+    if (publishedArticle) {
+      await recordRevision(dbService, article, publishedArticle, ['status'], undefined);
+      await dbService.recordArticleTransition({
+        article_id: publishedArticle.id,
+        from_status: 'scheduled',
+        to_status: 'published',
+      });
+      await embeddingService.syncArticle(publishedArticle);
+    }
+  }
+
+  await invalidateFeedCache(env);
+
+  return dueArticles.results.length;
+}
+
+/**
+ * 补算统计功能上线前保存的文章和译文的目录、字数和阅读时间
+ * 由定时任务调用，返回处理的数量
+ */
+export async function backfillContentStats(env: Env): Promise<number> {
+  const dbService = new DatabaseService(env.DB);
+  return dbService.backfillContentStats();
+}
+
+/**
+ * 判断用户能否编辑文章：创建者、合著者（任何署名角色，需为协作者及以上）和管理员
+ */
+export async function canEditArticle(
+  dbService: DatabaseService,
+  article: { id: string; author_id: string },
+  user: Pick<User, 'id' | 'role'>
+): Promise<boolean> {
+  if (article.author_id === user.id || hasPermission(user.role, 'admin')) {
+    return true;
+  }
+
+  // 合著者需要协作者及以上角色，被降级的用户不再能编辑
+  return hasPermission(user.role, 'collaborator') && dbService.isArticleAuthor(article.id, user.id);
+}
+
+/**
+ * 校验请求中的作者列表，返回按署名顺序排列的作者
+ * 未提供时只有创建者；创建者不在列表中时作为第一作者加入
+ */
+async function parseArticleAuthors(
+  env: Env,
+  value: unknown,
+  ownerId: string
+): Promise<{ user_id: string; role: ArticleAuthorRole }[]> {
+  if (value === undefined || value === null) {
+    return [{ user_id: ownerId, role: 'author' }];
+  }
+
+  if (!Array.isArray(value)) {
+    throw new ApiError('authors must be an array', 400);
+  }
+
+  const authors = value.map(item => {
+    const userId = item?.user_id;
+    const role = item?.role ?? 'author';
+
+    if (typeof userId !== 'string' || !userId) {
+      throw new ApiError('Each author requires a user_id', 400);
+    }
+    if (!ARTICLE_AUTHOR_ROLES.includes(role)) {
+      throw new ApiError(`Invalid author role, expected one of: ${ARTICLE_AUTHOR_ROLES.join(', ')}`, 400);
+    }
+
+    return { user_id: userId, role: role as ArticleAuthorRole };
+  });
+
+  if (!authors.some(author => author.user_id === ownerId)) {
+    authors.unshift({ user_id: ownerId, role: 'author' });
+  }
+
+  if (new Set(authors.map(author => author.user_id)).size !== authors.length) {
+    throw new ApiError('authors must not contain duplicates', 400);
+  }
+
+  if (authors.length > MAX_ARTICLE_AUTHORS) {
+    throw new ApiError(`An article can have at most ${MAX_ARTICLE_AUTHORS} authors`, 400);
+  }
+
+  const placeholders = authors.map(() => '?').join(',');
+  const results = await env.DB.prepare(`SELECT id, role FROM users WHERE id IN (${placeholders})`)
+    .bind(...authors.map(author => author.user_id))
+    .all();
+  const roles = new Map<string, string>(results.results.map((row: any) => [row.id, row.role]));
+  const missing = authors.filter(author => !roles.has(author.user_id)).map(author => author.user_id);
+  if (missing.length > 0) {
+    throw new ApiError(`Users not found: ${missing.join(', ')}`, 400);
+  }
+
+  // 合著者可以编辑文章，只能添加协作者及以上角色的用户
+  const unqualified = authors
+    .filter(author => author.user_id !== ownerId && !hasPermission(roles.get(author.user_id)!, 'collaborator'))
+    .map(author => author.user_id);
+  if (unqualified.length > 0) {
+    throw new ApiError(`Co-authors must be collaborators: ${unqualified.join(', ')}`, 400);
+  }
+
+  return authors;
+}
+
+/**
+ * 解析阅读时间筛选参数（分钟），未提供时返回 undefined
+ */
+function parseReadingTime(value: string | null, name: string): number | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+
+  const minutes = Number(value);
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new ApiError(`Invalid ${name}`, 400);
+  }
+
+  return minutes;
+}
+
+/**
+ * 解析文章的发布状态和发布时间
+ * 发布时间在未来的文章会被置为定时发布
+ */
+export function resolvePublishState(
+  status: string,
+  publishedAt?: string | null,
+  fallbackPublishedAt?: string | null
+): { status: Article['status']; published_at: string | null } {
+  if (!ARTICLE_STATUSES.includes(status as Article['status'])) {
+    throw new ApiError('Invalid status', 400);
+  }
+
+  let requestedAt: string | null = fallbackPublishedAt || null;
+  if (publishedAt) {
+    const date = new Date(publishedAt);
+    if (isNaN(date.getTime())) {
+      throw new ApiError('Invalid published_at', 400);
+    }
+    requestedAt = date.toISOString();
+  }
+
+  const now = new Date().toISOString();
+
+  if (status === 'scheduled') {
+    if (!requestedAt || requestedAt <= now) {
+      throw new ApiError('Scheduled articles require a future published_at', 400);
+    }
+    return { status: 'scheduled', published_at: requestedAt };
+  }
+
+  if (status === 'published') {
+    if (requestedAt && requestedAt > now) {
+      return { status: 'scheduled', published_at: requestedAt };
+    }
+    return { status: 'published', published_at: requestedAt || now };
+  }
+
+  return { status: status as Article['status'], published_at: requestedAt };
+}
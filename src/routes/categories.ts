@@ -1,6 +1,9 @@
 import { Env, Context, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
 import { createSuccessResponse, createErrorResponse, parseJSON, generateId } from '../utils';
 import { hasPermission } from '../utils/jwt';
+import { getSlugRedirectResponse } from '../utils/slug-redirects';
+import { invalidateFeedCache } from '../utils/feed-cache';
 
 /**
  * 获取分类列表
@@ -99,6 +102,8 @@ export async function createCategory(
       context.user.id
     ).run();
 
+    ctx.waitUntil(invalidateFeedCache(env));
+
     const category = await env.DB.prepare('SELECT * FROM categories WHERE id = ?').bind(categoryId).first();
 
     return createSuccessResponse({
@@ -170,6 +175,12 @@ export async function updateCategory(
       .bind(...values, categoryId)
       .run();
 
+    ctx.waitUntil(invalidateFeedCache(env));
+
+    if (slug && slug !== existing.slug) {
+      await new DatabaseService(env.DB).recordSlugRedirect('category', categoryId, existing.slug, slug, context.user.id);
+    }
+
     const category = await env.DB.prepare('SELECT * FROM categories WHERE id = ?').bind(categoryId).first();
 
     return createSuccessResponse({
@@ -222,6 +233,9 @@ export async function deleteCategory(
 
     // 删除分类
     await env.DB.prepare('DELETE FROM categories WHERE id = ?').bind(categoryId).run();
+    await new DatabaseService(env.DB).deleteSlugRedirectsFor('category', categoryId);
+
+    ctx.waitUntil(invalidateFeedCache(env));
 
     return createSuccessResponse({ message: 'Category deleted successfully' });
   } catch (error) {
@@ -252,6 +266,10 @@ export async function getCategoryBySlug(
     `).bind(slug).first();
 
     if (!category) {
+      const redirect = await getSlugRedirectResponse(request, env, 'category', slug);
+      if (redirect) {
+        return redirect;
+      }
       throw new ApiError('Category not found', 404);
     }
 
@@ -0,0 +1,444 @@
+import { Env, Context, Comment, ApiError, ModerationResult } from '../types';
+import { ModerationService } from '../services/moderation';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  parseJSON,
+  generateId,
+  isValidEmail,
+  isValidUrl,
+  safeJsonParse,
+} from '../utils';
+import { hasPermission } from '../utils/jwt';
+
+// 评论允许的审核状态
+const COMMENT_STATUSES: Comment['status'][] = ['pending', 'approved', 'rejected', 'spam'];
+
+// 评论内容最大长度
+const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * 获取文章评论（树形结构，仅包含已通过的评论）
+ */
+export async function getArticleComments(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const article = await env.DB.prepare('SELECT id FROM articles WHERE id = ? AND status = ?')
+      .bind(articleId, 'published')
+      .first();
+
+    if (!article) {
+      throw new ApiError('Article not found', 404);
+    }
+
+    const result = await env.DB.prepare(`
+      SELECT * FROM comments
+      WHERE article_id = ? AND status = 'approved'
+      ORDER BY created_at ASC
+    `).bind(articleId).all();
+
+    const comments = result.results.map((row: any) => mapPublicComment(row));
+
+    return createSuccessResponse({
+      total: comments.length,
+      comments: buildCommentTree(comments),
+    });
+  } catch (error) {
+    console.error('Get article comments error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get comments', 500);
+  }
+}
+
+/**
+ * 发表评论
+ */
+export async function createComment(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const enabledSetting = await env.DB.prepare('SELECT value FROM settings WHERE key = ?')
+      .bind('enable_comments')
+      .first();
+    if (enabledSetting?.value === 'false') {
+      throw new ApiError('Comments are disabled', 403);
+    }
+
+    const { content, parent_id, author_name, author_email, author_website } = await parseJSON(request);
+
+    if (!content || !content.trim()) {
+      throw new ApiError('Content is required', 400);
+    }
+
+    if (content.length > MAX_COMMENT_LENGTH) {
+      throw new ApiError(`Content must be at most ${MAX_COMMENT_LENGTH} characters`, 400);
+    }
+
+    // 匿名评论需要填写昵称和邮箱
+    if (!context.user) {
+      if (!author_name || !author_email) {
+        throw new ApiError('Name and email are required', 400);
+      }
+      if (!isValidEmail(author_email)) {
+        throw new ApiError('Invalid email format', 400);
+      }
+    }
+
+    if (author_website && !isValidUrl(author_website)) {
+      throw new ApiError('Invalid URL format', 400);
+    }
+
+    const article = await env.DB.prepare('SELECT id FROM articles WHERE id = ? AND status = ?')
+      .bind(articleId, 'published')
+      .first();
+
+    if (!article) {
+      throw new ApiError('Article not found', 404);
+    }
+
+    // 回复的评论必须属于同一篇文章且已通过审核
+    if (parent_id) {
+      const parent = await env.DB.prepare(`
+        SELECT id FROM comments WHERE id = ? AND article_id = ? AND status = 'approved'
+      `).bind(parent_id, articleId).first();
+
+      if (!parent) {
+        throw new ApiError('Parent comment not found', 404);
+      }
+    }
+
+    const commentId = generateId();
+    const now = new Date().toISOString();
+
+    // 管理员的评论直接通过，其他评论进入审核队列
+    let status: Comment['status'] = context.user && hasPermission(context.user.role, 'admin') ? 'approved' : 'pending';
+
+    // 待审核的评论先经过内容审核，明显的垃圾评论直接标记为 spam
+    let moderation: ModerationResult | null = null;
+    if (status === 'pending') {
+      moderation = await new ModerationService(env).moderate({
+        text: context.user ? content : `${author_name}\n${content}`,
+        urls: [author_website],
+      });
+      if (moderation.flagged.length > 0) {
+        status = 'spam';
+      }
+    }
+
+    const approved_at = status === 'approved' ? now : null;
+    const approved_by = status === 'approved' && context.user ? context.user.id : null;
+
+    await env.DB.prepare(`
+      INSERT INTO comments (
+        id, article_id, parent_id, author_id, author_name, author_email, author_website,
+        content, status, ip_address, user_agent, created_at, updated_at, approved_at, approved_by, moderation
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      commentId,
+      articleId,
+      parent_id || null,
+      context.user?.id || null,
+      context.user ? context.user.name || context.user.username : author_name,
+      context.user ? context.user.email : author_email,
+      author_website || (context.user?.website ?? null),
+      content.trim(),
+      status,
+      request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For') || null,
+      request.headers.get('User-Agent') || null,
+      now,
+      now,
+      approved_at,
+      approved_by,
+      moderation ? JSON.stringify(moderation) : null
+    ).run();
+
+    const comment = await env.DB.prepare('SELECT * FROM comments WHERE id = ?').bind(commentId).first();
+
+    return createSuccessResponse(
+      mapPublicComment(comment),
+      status !== 'approved' ? 'Comment submitted for moderation' : undefined
+    );
+  } catch (error) {
+    console.error('Create comment error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to create comment', 500);
+  }
+}
+
+/**
+ * 获取评论审核队列（管理员，包含评论者的邮箱、IP 等信息）
+ */
+export async function getComments(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') || 'pending';
+    const articleId = url.searchParams.get('articleId');
+    const page = parseInt(url.searchParams.get('page') || '1');
+    const limit = parseInt(url.searchParams.get('limit') || '20');
+
+    const conditions: string[] = [];
+    const bindings: any[] = [];
+
+    if (status !== 'all') {
+      conditions.push('c.status = ?');
+      bindings.push(status);
+    }
+
+    if (articleId) {
+      conditions.push('c.article_id = ?');
+      bindings.push(articleId);
+    }
+
+    const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+
+    const countResult = await env.DB.prepare(`
+      SELECT COUNT(*) as count FROM comments c ${whereClause}
+    `).bind(...bindings).first();
+    const total = Number(countResult?.count || 0);
+
+    const result = await env.DB.prepare(`
+      SELECT c.*, a.title as article_title, a.slug as article_slug
+      FROM comments c
+      LEFT JOIN articles a ON a.id = c.article_id
+      ${whereClause}
+      ORDER BY c.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...bindings, limit, (page - 1) * limit).all();
+
+    const comments = result.results.map((row: any) => ({
+      ...mapComment(row),
+      article_title: row.article_title,
+      article_slug: row.article_slug,
+    }));
+
+    return createSuccessResponse({
+      items: comments,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get comments error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get comments', 500);
+  }
+}
+
+/**
+ * 审核单条评论（通过、拒绝或标记为垃圾评论）
+ */
+export async function updateCommentStatus(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  commentId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const { status } = await parseJSON(request);
+
+    if (!COMMENT_STATUSES.includes(status)) {
+      throw new ApiError('Invalid status', 400);
+    }
+
+    const existing = await env.DB.prepare('SELECT * FROM comments WHERE id = ?').bind(commentId).first();
+    if (!existing) {
+      throw new ApiError('Comment not found', 404);
+    }
+
+    const updates: any = {
+      status,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (status === 'approved' && existing.status !== 'approved') {
+      updates.approved_at = new Date().toISOString();
+      updates.approved_by = context.user.id;
+    }
+
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = Object.values(updates);
+
+    await env.DB.prepare(`UPDATE comments SET ${setClause} WHERE id = ?`)
+      .bind(...values, commentId)
+      .run();
+
+    const comment = await env.DB.prepare('SELECT * FROM comments WHERE id = ?').bind(commentId).first();
+
+    return createSuccessResponse(mapComment(comment));
+  } catch (error) {
+    console.error('Update comment status error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to update comment status', 500);
+  }
+}
+
+/**
+ * 批量审核评论
+ */
+export async function updateCommentsStatus(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const { commentIds, status } = await parseJSON(request);
+
+    if (!Array.isArray(commentIds) || !status) {
+      throw new ApiError('Comment IDs array and status are required', 400);
+    }
+
+    if (!COMMENT_STATUSES.includes(status)) {
+      throw new ApiError('Invalid status', 400);
+    }
+
+    const now = new Date().toISOString();
+    const approved_at = status === 'approved' ? now : null;
+    const approved_by = status === 'approved' ? context.user.id : null;
+
+    // 批量更新状态，按实际更新的行数计数（不存在的 ID 不计入）
+    let updatedCount = 0;
+    for (const commentId of commentIds) {
+      const result = await env.DB.prepare(`
+        UPDATE comments
+        SET status = ?, updated_at = ?, approved_at = ?, approved_by = ?
+        WHERE id = ?
+      `).bind(status, now, approved_at, approved_by, commentId).run();
+      updatedCount += Number(result.meta?.changes || 0);
+    }
+
+    return createSuccessResponse({
+      message: `Successfully updated ${updatedCount} comments`,
+      updated_count: updatedCount,
+    });
+  } catch (error) {
+    console.error('Update comments status error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to update comments status', 500);
+  }
+}
+
+/**
+ * 删除评论（回复会一并删除）
+ */
+export async function deleteComment(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  commentId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const comment = await env.DB.prepare('SELECT id FROM comments WHERE id = ?').bind(commentId).first();
+    if (!comment) {
+      throw new ApiError('Comment not found', 404);
+    }
+
+    await env.DB.prepare('DELETE FROM comments WHERE id = ?').bind(commentId).run();
+
+    return createSuccessResponse({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to delete comment', 500);
+  }
+}
+
+/**
+ * 将评论列表组装为树形结构
+ */
+function buildCommentTree(comments: Comment[]): Comment[] {
+  const byId = new Map<string, Comment>();
+  const roots: Comment[] = [];
+
+  for (const comment of comments) {
+    byId.set(comment.id, { ...comment, replies: [] });
+  }
+
+  for (const comment of byId.values()) {
+    const parent = comment.parent_id ? byId.get(comment.parent_id) : undefined;
+    if (parent) {
+      parent.replies!.push(comment);
+    } else if (!comment.parent_id) {
+      roots.push(comment);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * 映射评论记录（审核视图）
+ */
+function mapComment(row: any): Comment {
+  return {
+    id: row.id,
+    article_id: row.article_id,
+    parent_id: row.parent_id,
+    author_id: row.author_id,
+    author_name: row.author_name,
+    author_email: row.author_email,
+    author_website: row.author_website,
+    content: row.content,
+    status: row.status,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    approved_at: row.approved_at,
+    approved_by: row.approved_by,
+    moderation: safeJsonParse(row.moderation || 'null', null),
+  };
+}
+
+/**
+ * 映射评论记录（公开视图，不包含邮箱、IP 和审核评分等信息）
+ */
+function mapPublicComment(row: any): Comment {
+  const { author_email, ip_address, user_agent, approved_by, moderation, ...comment } = mapComment(row);
+  return comment;
+}
@@ -1,8 +1,13 @@
-import { Env, Context, ApiError } from '../types';
+import { Env, Context, ApiError, User, ImageDescription } from '../types';
 import { StorageService } from '../services/storage';
 import { DatabaseService } from '../services/database';
+import { AIService } from '../services/ai';
 import { createSuccessResponse, createErrorResponse, safeJsonParse } from '../utils';
 import { hasPermission } from '../utils/jwt';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '../utils/languages';
+
+// 交给视觉模型描述的图片大小上限（5MB）
+const MAX_DESCRIBED_IMAGE_SIZE = 5 * 1024 * 1024;
 
 /**
  * 上传文件
@@ -22,6 +27,8 @@ export async function uploadFile(
     const file = formData.get('file') as File;
     const folder = formData.get('folder') as string || 'uploads';
     const isPublic = formData.get('isPublic') === 'true';
+    const describe = formData.get('describe') as string | null;
+    const language = formData.get('language') as string | null;
 
     if (!file) {
       throw new ApiError('File is required', 400);
@@ -31,6 +38,7 @@ export async function uploadFile(
     const dbService = new DatabaseService(env.DB);
     const maxSizeResult = await env.DB.prepare('SELECT value FROM settings WHERE key = ?').bind('max_file_size').first();
     const allowedTypesResult = await env.DB.prepare('SELECT value FROM settings WHERE key = ?').bind('allowed_file_types').first();
+    const describeResult = await env.DB.prepare('SELECT value FROM settings WHERE key = ?').bind('ai_image_descriptions').first();
     
     const maxSize = parseInt(maxSizeResult?.value as string || '10485760'); // 10MB
     const allowedTypes = safeJsonParse(allowedTypesResult?.value as string || '[]', []);
@@ -46,6 +54,12 @@ export async function uploadFile(
       isPublic,
     });
 
+    // 图片描述默认由 ai_image_descriptions 设置控制，上传时可通过 describe 字段单独开关
+    const shouldDescribe = describe !== null ? describe === 'true' : describeResult?.value === 'true';
+    const description = shouldDescribe && isDescribableImage(uploadResult.type, uploadResult.size)
+      ? await describeUploadedImage(env, context.user, file, uploadResult.type, language)
+      : null;
+
     // 保存文件记录到数据库
     const fileRecord = await dbService.createFile({
       name: uploadResult.name,
@@ -60,6 +74,7 @@ export async function uploadFile(
       metadata: {
         uploadedAt: new Date().toISOString(),
         userAgent: request.headers.get('User-Agent'),
+        ...(description && buildDescriptionMetadata(description)),
       },
     });
 
@@ -70,6 +85,82 @@ export async function uploadFile(
   }
 }
 
+/**
+ * 重新生成图片的替代文本和图注
+ */
+export async function describeFile(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  fileId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    const fileRecord = await dbService.getFileById(fileId);
+
+    if (!fileRecord) {
+      throw new ApiError('File not found', 404);
+    }
+
+    // 检查权限：只有文件上传者或管理员可以修改
+    if (fileRecord.uploaded_by !== context.user.id && !hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Permission denied', 403);
+    }
+
+    if (!fileRecord.type.startsWith('image/')) {
+      throw new ApiError('Only images can be described', 400);
+    }
+
+    if (!isDescribableImage(fileRecord.type, fileRecord.size)) {
+      throw new ApiError('Image is too large to describe', 400);
+    }
+
+    const language = new URL(request.url).searchParams.get('language') || DEFAULT_LANGUAGE;
+    if (!isSupportedLanguage(language)) {
+      throw new ApiError('Unsupported language', 400);
+    }
+
+    const storageService = new StorageService(env.STORAGE);
+    const object = await storageService.getFile(fileRecord.r2_key);
+
+    if (!object) {
+      throw new ApiError('File not found in storage', 404);
+    }
+
+    const aiService = await AIService.create(env, context.user);
+    let description: ImageDescription;
+    try {
+      description = await aiService.describeImage(new Uint8Array(await object.arrayBuffer()), {
+        mimeType: fileRecord.type,
+        language,
+        regenerate: true,
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === 429) {
+        throw error;
+      }
+      console.error('Image description error:', error);
+      throw new ApiError('Image description failed', 502);
+    }
+
+    const metadata = {
+      ...fileRecord.metadata,
+      ...buildDescriptionMetadata(description),
+    };
+    await dbService.updateFileMetadata(fileId, metadata);
+
+    return createSuccessResponse({ ...fileRecord, metadata }, 'Image description generated successfully');
+  } catch (error) {
+    console.error('Describe file error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to describe file', 500);
+  }
+}
+
 /**
  * 获取文件列表
  */
@@ -252,3 +343,44 @@ export async function getStorageUsage(
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to get storage usage', 500);
   }
 }
+
+/**
+ * 判断文件是否为可以交给视觉模型描述的图片
+ */
+function isDescribableImage(type: string, size: number): boolean {
+  return type.startsWith('image/') && size <= MAX_DESCRIBED_IMAGE_SIZE;
+}
+
+/**
+ * 上传时生成图片描述，失败（包括配额用完）时只记录日志，不影响上传
+ */
+async function describeUploadedImage(
+  env: Env,
+  user: User,
+  file: File,
+  mimeType: string,
+  language: string | null
+): Promise<ImageDescription | null> {
+  try {
+    const aiService = await AIService.create(env, user);
+    return await aiService.describeImage(new Uint8Array(await file.arrayBuffer()), {
+      mimeType,
+      language: language && isSupportedLanguage(language) ? language : DEFAULT_LANGUAGE,
+    });
+  } catch (error) {
+    console.warn('Failed to describe uploaded image:', error);
+    return null;
+  }
+}
+
+/**
+ * 图片描述写入文件元数据的字段
+ */
+function buildDescriptionMetadata(description: ImageDescription): Record<string, string> {
+  return {
+    altText: description.alt_text,
+    caption: description.caption,
+    descriptionLanguage: description.language,
+    describedAt: new Date().toISOString(),
+  };
+}
@@ -1,5 +1,6 @@
-import { Env, Context, ApiError } from '../types';
-import { createSuccessResponse, createErrorResponse, parseJSON, generateId } from '../utils';
+import { Env, Context, ApiError, ModerationResult } from '../types';
+import { ModerationService } from '../services/moderation';
+import { createSuccessResponse, createErrorResponse, parseJSON, generateId, safeJsonParse } from '../utils';
 import { hasPermission } from '../utils/jwt';
 
 /**
@@ -20,9 +21,10 @@ export async function getFriendLinks(
 
     let whereClause = '';
     const bindings: any[] = [];
+    const isModerator = !!context.user && hasPermission(context.user.role, 'collaborator');
 
     // 权限检查：非管理员只能查看已通过的链接
-    if (!context.user || !hasPermission(context.user.role, 'collaborator')) {
+    if (!isModerator) {
       whereClause = 'WHERE status = ?';
       bindings.push('approved');
     } else if (!includeAll) {
@@ -69,6 +71,8 @@ export async function getFriendLinks(
       approved_at: row.approved_at,
       created_by: row.created_by,
       approved_by: row.approved_by,
+      // 审核评分只对管理人员可见
+      ...(isModerator && { moderation: safeJsonParse(row.moderation || 'null', null) }),
     }));
 
     return createSuccessResponse(links);
@@ -114,7 +118,20 @@ export async function createFriendLink(
     const now = new Date().toISOString();
     
     // 如果用户未登录，状态为待审核；如果是管理员，可以直接通过
-    const status = context.user && hasPermission(context.user.role, 'admin') ? 'approved' : 'pending';
+    let status = context.user && hasPermission(context.user.role, 'admin') ? 'approved' : 'pending';
+
+    // 待审核的提交先经过内容审核，明显的垃圾内容直接拒绝
+    let moderation: ModerationResult | null = null;
+    if (status === 'pending') {
+      moderation = await new ModerationService(env).moderate({
+        text: [name, description].filter(Boolean).join('\n'),
+        urls: [url, avatar],
+      });
+      if (moderation.flagged.length > 0) {
+        status = 'rejected';
+      }
+    }
+
     const approved_at = status === 'approved' ? now : null;
     const approved_by = status === 'approved' && context.user ? context.user.id : null;
 
@@ -122,8 +139,8 @@ export async function createFriendLink(
       INSERT INTO friend_links (
         id, name, url, description, avatar, category, status, order_index, 
         is_featured, contact_email, created_at, updated_at, approved_at, 
-        created_by, approved_by
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        created_by, approved_by, moderation
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       linkId,
       name,
@@ -139,7 +156,8 @@ export async function createFriendLink(
       now,
       approved_at,
       context.user?.id || null,
-      approved_by
+      approved_by,
+      moderation ? JSON.stringify(moderation) : null
     ).run();
 
     const link = await env.DB.prepare('SELECT * FROM friend_links WHERE id = ?').bind(linkId).first();
@@ -253,6 +271,7 @@ export async function updateFriendLink(
       approved_at: link.approved_at,
       created_by: link.created_by,
       approved_by: link.approved_by,
+      moderation: safeJsonParse(link.moderation || 'null', null),
     });
   } catch (error) {
     console.error('Update friend link error:', error);
@@ -1,6 +1,11 @@
 import { Env, Context, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
 import { createSuccessResponse, createErrorResponse, parseJSON, generateId } from '../utils';
 import { hasPermission } from '../utils/jwt';
+import { getSlugRedirectResponse } from '../utils/slug-redirects';
+import { invalidateFeedCache } from '../utils/feed-cache';
+import { getContentHtml } from '../utils/content-cache';
+import { parseSeoFields } from '../utils/seo';
 
 /**
  * 获取页面列表
@@ -39,14 +44,18 @@ export async function getPages(
 
     const result = await env.DB.prepare(query).bind(...bindings).all();
     
-    const pages = result.results.map((row: any) => ({
+    const pages = await Promise.all(result.results.map(async (row: any) => ({
       id: row.id,
       title: row.title,
       slug: row.slug,
       content: row.content,
+      content_html: await getContentHtml(env, row.content),
       excerpt: row.excerpt,
       meta_title: row.meta_title,
       meta_description: row.meta_description,
+      meta_keywords: JSON.parse(row.meta_keywords || '[]'),
+      og_title: row.og_title,
+      og_description: row.og_description,
       status: row.status,
       template: row.template,
       order_index: Number(row.order_index),
@@ -57,7 +66,7 @@ export async function getPages(
       updated_at: row.updated_at,
       published_at: row.published_at,
       created_by: row.created_by,
-    }));
+    })));
 
     return createSuccessResponse(pages);
   } catch (error) {
@@ -80,17 +89,18 @@ export async function getPageBySlug(
     const page = await env.DB.prepare('SELECT * FROM pages WHERE slug = ?').bind(slug).first();
     
     if (!page) {
+      // 仅当前用户能查看改名后的页面时才重定向
+      const redirect = await getSlugRedirectResponse(request, env, 'page', slug, async targetSlug => {
+        const target = await env.DB.prepare('SELECT * FROM pages WHERE slug = ?').bind(targetSlug).first();
+        return !!target && canViewPage(target, context);
+      });
+      if (redirect) {
+        return redirect;
+      }
       throw new ApiError('Page not found', 404);
     }
 
-    // 权限检查：私有页面只有管理员可以查看
-    if (page.status === 'private' && (!context.user || !hasPermission(context.user.role, 'collaborator'))) {
-      throw new ApiError('Page not found', 404);
-    }
-
-    // 草稿页面只有作者和管理员可以查看
-    if (page.status === 'draft' && (!context.user || 
-        (page.created_by !== context.user.id && !hasPermission(context.user.role, 'admin')))) {
+    if (!canViewPage(page, context)) {
       throw new ApiError('Page not found', 404);
     }
 
@@ -99,9 +109,13 @@ export async function getPageBySlug(
       title: page.title,
       slug: page.slug,
       content: page.content,
+      content_html: await getContentHtml(env, page.content),
       excerpt: page.excerpt,
       meta_title: page.meta_title,
       meta_description: page.meta_description,
+      meta_keywords: JSON.parse(page.meta_keywords || '[]'),
+      og_title: page.og_title,
+      og_description: page.og_description,
       status: page.status,
       template: page.template,
       order_index: Number(page.order_index),
@@ -137,6 +151,7 @@ export async function createPage(
       throw new ApiError('Insufficient permissions', 403);
     }
 
+    const pageData = await parseJSON(request);
     const {
       title,
       slug,
@@ -150,12 +165,14 @@ export async function createPage(
       is_in_menu = false,
       menu_title,
       parent_id,
-    } = await parseJSON(request);
+    } = pageData;
 
     if (!title || !slug || !content) {
       throw new ApiError('Title, slug, and content are required', 400);
     }
 
+    const seoFields = parseSeoFields(pageData);
+
     // 检查 slug 是否已存在
     const existing = await env.DB.prepare('SELECT id FROM pages WHERE slug = ?').bind(slug).first();
     if (existing) {
@@ -168,9 +185,10 @@ export async function createPage(
     await env.DB.prepare(`
       INSERT INTO pages (
         id, title, slug, content, excerpt, meta_title, meta_description,
+        meta_keywords, og_title, og_description,
         status, template, order_index, is_in_menu, menu_title, parent_id,
         created_at, updated_at, published_at, created_by
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       pageId,
       title,
@@ -179,6 +197,9 @@ export async function createPage(
       excerpt || null,
       meta_title || null,
       meta_description || null,
+      seoFields.meta_keywords ?? '[]',
+      seoFields.og_title ?? null,
+      seoFields.og_description ?? null,
       status,
       template,
       order_index,
@@ -191,6 +212,8 @@ export async function createPage(
       context.user.id
     ).run();
 
+    ctx.waitUntil(invalidateFeedCache(env));
+
     const page = await env.DB.prepare('SELECT * FROM pages WHERE id = ?').bind(pageId).first();
 
     return createSuccessResponse({
@@ -198,9 +221,13 @@ export async function createPage(
       title: page.title,
       slug: page.slug,
       content: page.content,
+      content_html: await getContentHtml(env, page.content),
       excerpt: page.excerpt,
       meta_title: page.meta_title,
       meta_description: page.meta_description,
+      meta_keywords: JSON.parse(page.meta_keywords || '[]'),
+      og_title: page.og_title,
+      og_description: page.og_description,
       status: page.status,
       template: page.template,
       order_index: Number(page.order_index),
@@ -264,7 +291,7 @@ export async function updatePage(
 
     // 更新字段
     const allowedFields = [
-      'title', 'slug', 'content', 'excerpt', 'meta_title', 'meta_description',
+      'title', 'slug', 'content', 'excerpt',
       'status', 'template', 'order_index', 'is_in_menu', 'menu_title', 'parent_id'
     ];
 
@@ -274,6 +301,8 @@ export async function updatePage(
       }
     });
 
+    Object.assign(updates, parseSeoFields(updateData));
+
     // 如果状态变为已发布，设置发布时间
     if (updateData.status === 'published' && existing.status !== 'published') {
       updates.published_at = new Date().toISOString();
@@ -286,6 +315,12 @@ export async function updatePage(
       .bind(...values, pageId)
       .run();
 
+    ctx.waitUntil(invalidateFeedCache(env));
+
+    if (updateData.slug && updateData.slug !== existing.slug) {
+      await new DatabaseService(env.DB).recordSlugRedirect('page', pageId, existing.slug, updateData.slug, context.user.id);
+    }
+
     const page = await env.DB.prepare('SELECT * FROM pages WHERE id = ?').bind(pageId).first();
 
     return createSuccessResponse({
@@ -293,9 +328,13 @@ export async function updatePage(
       title: page.title,
       slug: page.slug,
       content: page.content,
+      content_html: await getContentHtml(env, page.content),
       excerpt: page.excerpt,
       meta_title: page.meta_title,
       meta_description: page.meta_description,
+      meta_keywords: JSON.parse(page.meta_keywords || '[]'),
+      og_title: page.og_title,
+      og_description: page.og_description,
       status: page.status,
       template: page.template,
       order_index: Number(page.order_index),
@@ -346,6 +385,9 @@ export async function deletePage(
 
     // 删除页面
     await env.DB.prepare('DELETE FROM pages WHERE id = ?').bind(pageId).run();
+    await new DatabaseService(env.DB).deleteSlugRedirectsFor('page', pageId);
+
+    ctx.waitUntil(invalidateFeedCache(env));
 
     return createSuccessResponse({ message: 'Page deleted successfully' });
   } catch (error) {
@@ -353,3 +395,18 @@ export async function deletePage(
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to delete page', 500);
   }
 }
+
+/**
+ * 判断当前用户能否查看页面：私有页面需要协作者及以上角色，草稿页面只有作者和管理员可以查看
+ */
+function canViewPage(page: any, context: Context): boolean {
+  if (page.status === 'private') {
+    return !!context.user && hasPermission(context.user.role, 'collaborator');
+  }
+
+  if (page.status === 'draft') {
+    return !!context.user && (page.created_by === context.user.id || hasPermission(context.user.role, 'admin'));
+  }
+
+  return true;
+}
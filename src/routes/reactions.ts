@@ -0,0 +1,268 @@
+import { Env, Context, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
+import { createSuccessResponse, createErrorResponse, generateId, safeJsonParse } from '../utils';
+
+// 支持的表情回应
+export const ARTICLE_REACTIONS: Record<string, string> = {
+  like: '👍',
+  love: '❤️',
+  laugh: '😄',
+  celebrate: '🎉',
+  insightful: '💡',
+  confused: '😕',
+};
+
+/**
+ * 点赞文章
+ */
+export async function likeArticle(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const { visitorId } = await parseReactionRequest(request);
+    const result = await addReaction(env, context, articleId, 'like', visitorId);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error('Like article error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to like article', 500);
+  }
+}
+
+/**
+ * 取消点赞
+ */
+export async function unlikeArticle(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const { visitorId } = await parseReactionRequest(request);
+    const result = await removeReaction(env, context, articleId, 'like', visitorId);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error('Unlike article error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to unlike article', 500);
+  }
+}
+
+/**
+ * 获取文章的表情回应统计
+ */
+export async function getArticleReactions(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const { visitorId } = await parseReactionRequest(request);
+    await getPublishedArticle(env, articleId);
+
+    return createSuccessResponse(await getReactionSummary(env, context, articleId, visitorId));
+  } catch (error) {
+    console.error('Get article reactions error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get reactions', 500);
+  }
+}
+
+/**
+ * 添加表情回应
+ */
+export async function reactToArticle(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const { reaction, visitorId } = await parseReactionRequest(request);
+    const result = await addReaction(env, context, articleId, reaction, visitorId);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error('React to article error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to add reaction', 500);
+  }
+}
+
+/**
+ * 移除表情回应
+ */
+export async function removeArticleReaction(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  articleId: string
+): Promise<Response> {
+  try {
+    const { reaction, visitorId } = await parseReactionRequest(request);
+    const result = await removeReaction(env, context, articleId, reaction, visitorId);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error('Remove article reaction error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to remove reaction', 500);
+  }
+}
+
+/**
+ * 解析请求中的回应类型和访客 ID（支持请求体和查询参数）
+ */
+async function parseReactionRequest(request: Request): Promise<{ reaction: string; visitorId?: string }> {
+  const url = new URL(request.url);
+  const body = safeJsonParse<Record<string, any>>(await request.text(), {});
+
+  return {
+    reaction: body.reaction || url.searchParams.get('reaction') || '',
+    visitorId: body.visitorId || url.searchParams.get('visitorId') || undefined,
+  };
+}
+
+/**
+ * 添加回应（同一用户或访客对同一篇文章的同一种回应只记录一次）
+ */
+async function addReaction(
+  env: Env,
+  context: Context,
+  articleId: string,
+  reaction: string,
+  visitorId?: string
+) {
+  validateReaction(reaction);
+  const identity = getReactorIdentity(context, visitorId);
+  await getPublishedArticle(env, articleId);
+
+  await env.DB.prepare(`
+    INSERT OR IGNORE INTO article_reactions (id, article_id, reaction, user_id, visitor_id)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(generateId(), articleId, reaction, identity.userId, identity.visitorId).run();
+
+  if (reaction === 'like') {
+    await syncLikeCount(env, articleId);
+  }
+
+  return getReactionSummary(env, context, articleId, visitorId);
+}
+
+/**
+ * 移除回应
+ */
+async function removeReaction(
+  env: Env,
+  context: Context,
+  articleId: string,
+  reaction: string,
+  visitorId?: string
+) {
+  validateReaction(reaction);
+  const identity = getReactorIdentity(context, visitorId);
+  await getPublishedArticle(env, articleId);
+
+  if (identity.userId) {
+    await env.DB.prepare(`
+      DELETE FROM article_reactions WHERE article_id = ? AND reaction = ? AND user_id = ?
+    `).bind(articleId, reaction, identity.userId).run();
+  } else {
+    await env.DB.prepare(`
+      DELETE FROM article_reactions WHERE article_id = ? AND reaction = ? AND visitor_id = ?
+    `).bind(articleId, reaction, identity.visitorId).run();
+  }
+
+  if (reaction === 'like') {
+    await syncLikeCount(env, articleId);
+  }
+
+  return getReactionSummary(env, context, articleId, visitorId);
+}
+
+/**
+ * 获取回应统计以及当前用户或访客已做出的回应
+ */
+async function getReactionSummary(env: Env, context: Context, articleId: string, visitorId?: string) {
+  const dbService = new DatabaseService(env.DB);
+  const counts = await dbService.getReactionCounts([articleId]);
+
+  let reacted: string[] = [];
+  if (context.user || visitorId) {
+    const identity = getReactorIdentity(context, visitorId);
+    const result = await env.DB.prepare(`
+      SELECT reaction FROM article_reactions
+      WHERE article_id = ? AND ${identity.userId ? 'user_id = ?' : 'visitor_id = ?'}
+    `).bind(articleId, identity.userId || identity.visitorId).all();
+    reacted = result.results.map((row: any) => row.reaction);
+  }
+
+  const reactions = counts[articleId] || {};
+
+  return {
+    article_id: articleId,
+    like_count: reactions.like || 0,
+    reactions,
+    reacted,
+    available: ARTICLE_REACTIONS,
+  };
+}
+
+/**
+ * 同步文章的点赞计数
+ */
+async function syncLikeCount(env: Env, articleId: string): Promise<void> {
+  await env.DB.prepare(`
+    UPDATE articles
+    SET like_count = (
+      SELECT COUNT(*) FROM article_reactions WHERE article_id = ? AND reaction = 'like'
+    )
+    WHERE id = ?
+  `).bind(articleId, articleId).run();
+}
+
+/**
+ * 获取回应者身份：登录用户使用用户 ID，匿名访客使用 visitorId
+ */
+function getReactorIdentity(context: Context, visitorId?: string): { userId: string | null; visitorId: string | null } {
+  if (context.user) {
+    return { userId: context.user.id, visitorId: null };
+  }
+
+  if (!visitorId) {
+    throw new ApiError('Visitor ID is required', 400);
+  }
+
+  return { userId: null, visitorId };
+}
+
+/**
+ * 校验回应类型
+ */
+function validateReaction(reaction: string): void {
+  if (!reaction || !ARTICLE_REACTIONS[reaction]) {
+    throw new ApiError('Invalid reaction', 400);
+  }
+}
+
+/**
+ * 获取已发布的文章
+ */
+async function getPublishedArticle(env: Env, articleId: string): Promise<any> {
+  const article = await env.DB.prepare('SELECT id FROM articles WHERE id = ? AND status = ?')
+    .bind(articleId, 'published')
+    .first();
+
+  if (!article) {
+    throw new ApiError('Article not found', 404);
+  }
+
+  return article;
+}
@@ -0,0 +1,141 @@
+import { Env, Context, ApiError, SlugRedirectEntityType } from '../types';
+import { DatabaseService } from '../services/database';
+import { createSuccessResponse, createErrorResponse, parseJSON } from '../utils';
+import { hasPermission } from '../utils/jwt';
+import { SLUG_REDIRECT_ENTITY_TYPES } from '../utils/slug-redirects';
+
+/**
+ * 获取 slug 重定向列表（管理员，可按 ?type= 筛选）
+ */
+export async function getSlugRedirects(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    requireAdmin(context);
+
+    const url = new URL(request.url);
+    const page = parseInt(url.searchParams.get('page') || '1');
+    const limit = parseInt(url.searchParams.get('limit') || '20');
+    const type = url.searchParams.get('type') || undefined;
+
+    if (type !== undefined && !isSlugRedirectEntityType(type)) {
+      throw new ApiError('Invalid type', 400);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    const result = await dbService.getSlugRedirects({
+      limit,
+      offset: (page - 1) * limit,
+      entity_type: type,
+    });
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error('Get slug redirects error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get slug redirects', 500);
+  }
+}
+
+/**
+ * 手动添加 slug 重定向（管理员）
+ */
+export async function createSlugRedirect(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    requireAdmin(context);
+
+    const { entity_type, old_slug, target_slug } = await parseJSON(request);
+
+    if (typeof entity_type !== 'string' || !isSlugRedirectEntityType(entity_type)) {
+      throw new ApiError(`entity_type must be one of: ${SLUG_REDIRECT_ENTITY_TYPES.join(', ')}`, 400);
+    }
+
+    if (typeof old_slug !== 'string' || !old_slug || typeof target_slug !== 'string' || !target_slug) {
+      throw new ApiError('old_slug and target_slug are required', 400);
+    }
+
+    if (old_slug === target_slug) {
+      throw new ApiError('old_slug and target_slug must be different', 400);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+
+    // 旧 slug 仍被使用时重定向不会生效
+    if (await dbService.getSlugEntityId(entity_type, old_slug)) {
+      throw new ApiError('old_slug is still in use', 400);
+    }
+
+    if (await dbService.getSlugRedirectBySlug(entity_type, old_slug)) {
+      throw new ApiError('Redirect already exists', 400);
+    }
+
+    const entityId = await dbService.getSlugEntityId(entity_type, target_slug);
+    if (!entityId) {
+      throw new ApiError('Redirect target not found', 400);
+    }
+
+    await dbService.recordSlugRedirect(entity_type, entityId, old_slug, target_slug, context.user!.id);
+
+    const redirect = await dbService.getSlugRedirectBySlug(entity_type, old_slug);
+
+    return createSuccessResponse(redirect && { ...redirect, target_slug }, 'Redirect created');
+  } catch (error) {
+    console.error('Create slug redirect error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to create slug redirect', 500);
+  }
+}
+
+/**
+ * 删除 slug 重定向（管理员）
+ */
+export async function deleteSlugRedirect(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  redirectId: string
+): Promise<Response> {
+  try {
+    requireAdmin(context);
+
+    const dbService = new DatabaseService(env.DB);
+    const redirect = await dbService.getSlugRedirectById(redirectId);
+    if (!redirect) {
+      throw new ApiError('Redirect not found', 404);
+    }
+
+    await dbService.deleteSlugRedirect(redirectId);
+
+    return createSuccessResponse({ message: 'Redirect deleted successfully' });
+  } catch (error) {
+    console.error('Delete slug redirect error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to delete slug redirect', 500);
+  }
+}
+
+/**
+ * 检查当前用户是否为管理员
+ */
+function requireAdmin(context: Context): void {
+  if (!context.user) {
+    throw new ApiError('Authentication required', 401);
+  }
+
+  if (!hasPermission(context.user.role, 'admin')) {
+    throw new ApiError('Insufficient permissions', 403);
+  }
+}
+
+/**
+ * 判断是否为支持重定向的记录类型
+ */
+function isSlugRedirectEntityType(value: string): value is SlugRedirectEntityType {
+  return SLUG_REDIRECT_ENTITY_TYPES.includes(value as SlugRedirectEntityType);
+}
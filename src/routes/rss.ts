@@ -1,5 +1,11 @@
-import { Env, Context, ApiError } from '../types';
-import { createSuccessResponse, createErrorResponse } from '../utils';
+import { Env, Context, ApiError, ArticleAuthor } from '../types';
+import { createSuccessResponse, createErrorResponse, escapeXml } from '../utils';
+import { getCachedFeed, setCachedFeed } from '../utils/feed-cache';
+import { getContentHtml } from '../utils/content-cache';
+import { DatabaseService } from '../services/database';
+
+// Feed 最多返回的文章数
+const MAX_FEED_LIMIT = 50;
 
 /**
  * 生成 RSS Feed
@@ -12,9 +18,11 @@ export async function generateRSSFeed(
 ): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const category = url.searchParams.get('category');
-    const tag = url.searchParams.get('tag');
-    const limit = parseInt(url.searchParams.get('limit') || '20');
+    const { category, tag, limit, cacheKey } = parseFeedQuery(url);
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return feedResponse(cached, 'application/rss+xml; charset=utf-8');
+    }
 
     // 构建查询条件
     let whereClause = 'WHERE status = ?';
@@ -26,15 +34,16 @@ export async function generateRSSFeed(
     }
 
     if (tag) {
-      whereClause += ' AND JSON_EXTRACT(tags, "$") LIKE ?';
-      bindings.push(`%"${tag}"%`);
+      whereClause += ' AND id IN (SELECT article_id FROM article_tags WHERE tag_slug = ?)';
+      bindings.push(tag);
     }
 
     // 查询文章
     const query = `
       SELECT 
         id, title, slug, excerpt, content, category, tags,
-        published_at, updated_at, created_by
+        meta_title, meta_description, meta_keywords, og_title, og_description,
+        published_at, updated_at, author_id
       FROM articles 
       ${whereClause}
       ORDER BY published_at DESC 
@@ -42,7 +51,7 @@ export async function generateRSSFeed(
     `;
 
     const result = await env.DB.prepare(query).bind(...bindings, limit).all();
-    const articles = result.results;
+    const articles = await withFeedDetails(env, result.results);
 
     // 获取网站设置
     const siteSettings = await env.DB.prepare('SELECT key, value FROM settings').all();
@@ -63,21 +72,23 @@ export async function generateRSSFeed(
       language: 'zh-CN',
       articles: articles.map((article: any) => ({
         title: article.title,
-        description: article.excerpt || '',
+        description: article.meta_description || article.excerpt || '',
         link: `${siteUrl}/articles/${article.slug}`,
         pubDate: new Date(article.published_at).toUTCString(),
         guid: `${siteUrl}/articles/${article.slug}`,
         category: article.category,
-        content: article.content,
+        keywords: JSON.parse(article.meta_keywords || '[]'),
+        content: article.content_html,
+        authors: article.authors.map((author: ArticleAuthor) => author.name),
       })),
     });
 
-    return new Response(rssXml, {
-      headers: {
-        'Content-Type': 'application/rss+xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600', // 缓存1小时
-      },
-    });
+    // 筛选不到文章时不写入缓存，避免随意的筛选值占用 KV
+    if (articles.length > 0 || (!category && !tag)) {
+      await setCachedFeed(env, cacheKey, rssXml);
+    }
+
+    return feedResponse(rssXml, 'application/rss+xml; charset=utf-8');
   } catch (error) {
     console.error('Generate RSS feed error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate RSS feed', 500);
@@ -95,9 +106,11 @@ export async function generateAtomFeed(
 ): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const category = url.searchParams.get('category');
-    const tag = url.searchParams.get('tag');
-    const limit = parseInt(url.searchParams.get('limit') || '20');
+    const { category, tag, limit, cacheKey } = parseFeedQuery(url);
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return feedResponse(cached, 'application/atom+xml; charset=utf-8');
+    }
 
     // 构建查询条件
     let whereClause = 'WHERE status = ?';
@@ -109,15 +122,16 @@ export async function generateAtomFeed(
     }
 
     if (tag) {
-      whereClause += ' AND JSON_EXTRACT(tags, "$") LIKE ?';
-      bindings.push(`%"${tag}"%`);
+      whereClause += ' AND id IN (SELECT article_id FROM article_tags WHERE tag_slug = ?)';
+      bindings.push(tag);
     }
 
     // 查询文章
     const query = `
       SELECT 
         id, title, slug, excerpt, content, category, tags,
-        published_at, updated_at, created_by
+        meta_title, meta_description, meta_keywords, og_title, og_description,
+        published_at, updated_at, author_id
       FROM articles 
       ${whereClause}
       ORDER BY published_at DESC 
@@ -125,7 +139,7 @@ export async function generateAtomFeed(
     `;
 
     const result = await env.DB.prepare(query).bind(...bindings, limit).all();
-    const articles = result.results;
+    const articles = await withFeedDetails(env, result.results);
 
     // 获取网站设置
     const siteSettings = await env.DB.prepare('SELECT key, value FROM settings').all();
@@ -147,22 +161,24 @@ export async function generateAtomFeed(
       updated: articles.length > 0 ? new Date(articles[0].updated_at).toISOString() : new Date().toISOString(),
       articles: articles.map((article: any) => ({
         title: article.title,
-        summary: article.excerpt || '',
+        summary: article.meta_description || article.excerpt || '',
         link: `${siteUrl}/articles/${article.slug}`,
         id: `${siteUrl}/articles/${article.slug}`,
         published: new Date(article.published_at).toISOString(),
         updated: new Date(article.updated_at).toISOString(),
-        content: article.content,
+        content: article.content_html,
         category: article.category,
+        keywords: JSON.parse(article.meta_keywords || '[]'),
+        authors: article.authors.map((author: ArticleAuthor) => ({ name: author.name, uri: author.website })),
       })),
     });
 
-    return new Response(atomXml, {
-      headers: {
-        'Content-Type': 'application/atom+xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600', // 缓存1小时
-      },
-    });
+    // 筛选不到文章时不写入缓存，避免随意的筛选值占用 KV
+    if (articles.length > 0 || (!category && !tag)) {
+      await setCachedFeed(env, cacheKey, atomXml);
+    }
+
+    return feedResponse(atomXml, 'application/atom+xml; charset=utf-8');
   } catch (error) {
     console.error('Generate Atom feed error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate Atom feed', 500);
@@ -180,9 +196,11 @@ export async function generateJSONFeed(
 ): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const category = url.searchParams.get('category');
-    const tag = url.searchParams.get('tag');
-    const limit = parseInt(url.searchParams.get('limit') || '20');
+    const { category, tag, limit, cacheKey } = parseFeedQuery(url);
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return feedResponse(cached, 'application/feed+json; charset=utf-8');
+    }
 
     // 构建查询条件
     let whereClause = 'WHERE status = ?';
@@ -194,15 +212,16 @@ export async function generateJSONFeed(
     }
 
     if (tag) {
-      whereClause += ' AND JSON_EXTRACT(tags, "$") LIKE ?';
-      bindings.push(`%"${tag}"%`);
+      whereClause += ' AND id IN (SELECT article_id FROM article_tags WHERE tag_slug = ?)';
+      bindings.push(tag);
     }
 
     // 查询文章
     const query = `
       SELECT 
         id, title, slug, excerpt, content, category, tags,
-        published_at, updated_at, created_by
+        meta_title, meta_description, meta_keywords, og_title, og_description,
+        published_at, updated_at, author_id
       FROM articles 
       ${whereClause}
       ORDER BY published_at DESC 
@@ -210,7 +229,7 @@ export async function generateJSONFeed(
     `;
 
     const result = await env.DB.prepare(query).bind(...bindings, limit).all();
-    const articles = result.results;
+    const articles = await withFeedDetails(env, result.results);
 
     // 获取网站设置
     const siteSettings = await env.DB.prepare('SELECT key, value FROM settings').all();
@@ -234,27 +253,148 @@ export async function generateJSONFeed(
       items: articles.map((article: any) => ({
         id: `${siteUrl}/articles/${article.slug}`,
         title: article.title,
-        summary: article.excerpt || '',
-        content_html: article.content,
+        summary: article.meta_description || article.excerpt || '',
+        content_html: article.content_html,
         url: `${siteUrl}/articles/${article.slug}`,
         date_published: new Date(article.published_at).toISOString(),
         date_modified: new Date(article.updated_at).toISOString(),
+        authors: article.authors.map((author: ArticleAuthor) => ({
+          name: author.name,
+          url: author.website || undefined,
+          avatar: author.avatar_url || undefined,
+        })),
         tags: article.tags ? JSON.parse(article.tags) : [],
+        // JSON Feed 扩展字段：文章的 SEO 元数据
+        _seo: {
+          meta_title: article.meta_title || article.title,
+          meta_description: article.meta_description || article.excerpt || '',
+          keywords: JSON.parse(article.meta_keywords || '[]'),
+          og_title: article.og_title || article.meta_title || article.title,
+          og_description: article.og_description || article.meta_description || article.excerpt || '',
+        },
       })),
     };
 
-    return new Response(JSON.stringify(jsonFeed, null, 2), {
-      headers: {
-        'Content-Type': 'application/feed+json; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600', // 缓存1小时
-      },
-    });
+    const body = JSON.stringify(jsonFeed, null, 2);
+    // 筛选不到文章时不写入缓存，避免随意的筛选值占用 KV
+    if (articles.length > 0 || (!category && !tag)) {
+      await setCachedFeed(env, cacheKey, body);
+    }
+
+    return feedResponse(body, 'application/feed+json; charset=utf-8');
   } catch (error) {
     console.error('Generate JSON feed error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate JSON feed', 500);
   }
 }
 
+/**
+ * 生成系列的 RSS Feed
+ */
+export async function generateSeriesRSSFeed(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  slug: string
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const cacheKey = url.pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return feedResponse(cached, 'application/rss+xml; charset=utf-8');
+    }
+
+    const series = await new DatabaseService(env.DB).getSeriesBySlug(slug);
+    if (!series) {
+      throw new ApiError('Series not found', 404);
+    }
+
+    // 查询系列中已发布的文章
+    const result = await env.DB.prepare(`
+      SELECT
+        a.id, a.title, a.slug, a.excerpt, a.content, a.category, a.tags,
+        a.meta_description, a.meta_keywords, a.published_at, a.updated_at, a.author_id
+      FROM series_articles sa
+      JOIN articles a ON a.id = sa.article_id
+      WHERE sa.series_id = ? AND a.status = 'published'
+      ORDER BY a.published_at DESC
+    `).bind(series.id).all();
+    const articles = await withFeedDetails(env, result.results);
+
+    const siteName = await env.DB.prepare('SELECT value FROM settings WHERE key = ?').bind('site_name').first();
+    const siteUrl = env.SITE_URL || 'https://example.com';
+
+    const rssXml = generateRSSXML({
+      title: `${siteName?.value || 'Modern Blog'} - ${series.title}`,
+      description: series.description || series.title,
+      link: siteUrl,
+      selfLink: `${siteUrl}/api/series/${series.slug}/feed.xml`,
+      language: 'zh-CN',
+      articles: articles.map((article: any) => ({
+        title: article.title,
+        description: article.meta_description || article.excerpt || '',
+        link: `${siteUrl}/articles/${article.slug}`,
+        pubDate: new Date(article.published_at).toUTCString(),
+        guid: `${siteUrl}/articles/${article.slug}`,
+        category: article.category,
+        keywords: JSON.parse(article.meta_keywords || '[]'),
+        content: article.content_html,
+        authors: article.authors.map((author: ArticleAuthor) => author.name),
+      })),
+    });
+
+    await setCachedFeed(env, cacheKey, rssXml);
+
+    return feedResponse(rssXml, 'application/rss+xml; charset=utf-8');
+  } catch (error) {
+    console.error('Generate series RSS feed error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate series RSS feed', 500);
+  }
+}
+
+/**
+ * 解析 Feed 的筛选参数，缓存 key 只由规范化后的参数组成，无关的查询参数不会产生新的缓存
+ */
+function parseFeedQuery(url: URL): { category: string | null; tag: string | null; limit: number; cacheKey: string } {
+  const category = url.searchParams.get('category');
+  const tag = url.searchParams.get('tag');
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '20') || 20, 1), MAX_FEED_LIMIT);
+
+  return {
+    category,
+    tag,
+    limit,
+    cacheKey: `${url.pathname}?category=${category || ''}&tag=${tag || ''}&limit=${limit}`,
+  };
+}
+
+/**
+ * 附加 Feed 条目需要的正文 HTML 和作者列表
+ */
+async function withFeedDetails(env: Env, rows: any[]): Promise<any[]> {
+  const authors = await new DatabaseService(env.DB).getArticleAuthors(rows.map(row => row.id));
+
+  return Promise.all(rows.map(async (article: any) => ({
+    ...article,
+    content_html: await getContentHtml(env, article.content),
+    authors: authors[article.id] || [],
+  })));
+}
+
+/**
+ * 生成 Feed 响应
+ */
+function feedResponse(body: string, contentType: string): Response {
+  return new Response(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'public, max-age=3600', // 缓存1小时
+    },
+  });
+}
+
 /**
  * 生成 RSS XML 内容
  */
@@ -262,12 +402,14 @@ function generateRSSXML({
   title,
   description,
   link,
+  selfLink = `${link}/api/feed.xml`,
   language = 'zh-CN',
   articles,
 }: {
   title: string
   description: string
   link: string
+  selfLink?: string
   language?: string
   articles: Array<{
     title: string
@@ -276,7 +418,9 @@ function generateRSSXML({
     pubDate: string
     guid: string
     category?: string
+    keywords?: string[]
     content?: string
+    authors?: string[]
   }>
 }) {
   const now = new Date().toUTCString();
@@ -289,7 +433,7 @@ function generateRSSXML({
     <link>${link}</link>
     <language>${language}</language>
     <lastBuildDate>${now}</lastBuildDate>
-    <atom:link href="${link}/api/feed.xml" rel="self" type="application/rss+xml"/>
+    <atom:link href="${selfLink}" rel="self" type="application/rss+xml"/>
     ${articles.map(article => `
     <item>
       <title><![CDATA[${article.title}]]></title>
@@ -297,7 +441,9 @@ function generateRSSXML({
       <link>${article.link}</link>
       <guid isPermaLink="true">${article.guid}</guid>
       <pubDate>${article.pubDate}</pubDate>
+      ${(article.authors || []).map(author => `<author><![CDATA[${author}]]></author>`).join('')}
       ${article.category ? `<category><![CDATA[${article.category}]]></category>` : ''}
+      ${(article.keywords || []).map(keyword => `<category domain="keywords"><![CDATA[${keyword}]]></category>`).join('')}
       ${article.content ? `<content:encoded><![CDATA[${article.content}]]></content:encoded>` : ''}
     </item>`).join('')}
   </channel>
@@ -329,6 +475,8 @@ function generateAtomXML({
     updated: string
     content?: string
     category?: string
+    keywords?: string[]
+    authors?: Array<{ name: string; uri?: string }>
   }>
 }) {
   return `<?xml version="1.0" encoding="UTF-8"?>
@@ -347,8 +495,10 @@ function generateAtomXML({
     <id>${article.id}</id>
     <published>${article.published}</published>
     <updated>${article.updated}</updated>
+    ${(article.authors || []).map(author => `<author><name><![CDATA[${author.name}]]></name>${author.uri ? `<uri>${escapeXml(author.uri)}</uri>` : ''}</author>`).join('')}
     ${article.content ? `<content type="html"><![CDATA[${article.content}]]></content>` : ''}
     ${article.category ? `<category term="${article.category}"/>` : ''}
+    ${(article.keywords || []).map(keyword => `<category term="${escapeXml(keyword)}" scheme="keywords"/>`).join('')}
   </entry>`).join('')}
 </feed>`;
 }
@@ -1,6 +1,27 @@
 import { Env, Context, ApiError } from '../types';
 import { DatabaseService } from '../services/database';
+import { EmbeddingService } from '../services/embedding';
 import { createSuccessResponse, createErrorResponse, parseJSON } from '../utils';
+import { hasPermission } from '../utils/jwt';
+import {
+  buildFtsQuery,
+  buildSnippet,
+  getSearchTerms,
+  highlightTerms,
+  SEARCH_BM25_WEIGHTS,
+} from '../utils/search-index';
+
+// 搜索结果返回的文章字段
+const SEARCH_RESULT_COLUMNS = `
+  a.id, a.title, a.slug, a.excerpt, a.summary, a.cover_image, a.category, a.tags,
+  a.author_id, a.published_at, a.created_at, a.updated_at, a.view_count, a.like_count
+`;
+
+// 全文搜索的相关度（正文只用于生成高亮片段，不会返回）
+const SEARCH_MATCH_COLUMNS = `
+  bm25(articles_fts, ${SEARCH_BM25_WEIGHTS}) as score,
+  a.content
+`;
 
 /**
  * 搜索文章
@@ -18,9 +39,10 @@ export async function searchArticles(
     const limit = parseInt(url.searchParams.get('limit') || '10');
     const category = url.searchParams.get('category') || '';
     const tag = url.searchParams.get('tag') || '';
+    const matchQuery = buildFtsQuery(query);
 
     // 如果没有搜索查询，返回空结果
-    if (!query.trim()) {
+    if (!matchQuery) {
       return createSuccessResponse({
         articles: [],
         pagination: {
@@ -38,48 +60,40 @@ export async function searchArticles(
     const offset = (page - 1) * limit;
 
     // 构建搜索查询
-    let whereClause = 'WHERE status = ? AND (title LIKE ? OR content LIKE ? OR excerpt LIKE ?)';
-    const bindings: any[] = ['published', `%${query}%`, `%${query}%`, `%${query}%`];
+    let whereClause = 'WHERE articles_fts MATCH ? AND a.status = ?';
+    const bindings: any[] = [matchQuery, 'published'];
 
     if (category) {
-      whereClause += ' AND category = ?';
+      whereClause += ' AND a.category = ?';
       bindings.push(category);
     }
 
     if (tag) {
-      whereClause += ' AND tags LIKE ?';
-      bindings.push(`%"${tag}"%`);
+      whereClause += ' AND a.id IN (SELECT article_id FROM article_tags WHERE tag_slug = ?)';
+      bindings.push(tag);
     }
 
     // 获取搜索结果总数
     const countResult = await env.DB.prepare(`
-      SELECT COUNT(*) as count FROM articles ${whereClause}
+      SELECT COUNT(*) as count
+      FROM articles_fts
+      JOIN articles a ON a.id = articles_fts.article_id
+      ${whereClause}
     `).bind(...bindings).first();
     const total = countResult?.count as number || 0;
 
-    // 获取搜索结果
+    // 获取搜索结果（bm25 分数越小越相关）
     const results = await env.DB.prepare(`
-      SELECT 
-        id, title, slug, excerpt, summary, cover_image, category, tags,
-        author_id, published_at, created_at, updated_at, view_count, like_count
-      FROM articles 
+      SELECT ${SEARCH_RESULT_COLUMNS}, ${SEARCH_MATCH_COLUMNS}
+      FROM articles_fts
+      JOIN articles a ON a.id = articles_fts.article_id
       ${whereClause}
-      ORDER BY 
-        CASE 
-          WHEN title LIKE ? THEN 1
-          WHEN excerpt LIKE ? THEN 2
-          ELSE 3
-        END,
-        published_at DESC
+      ORDER BY score, a.published_at DESC
       LIMIT ? OFFSET ?
-    `).bind(...bindings, `%${query}%`, `%${query}%`, limit, offset).all();
+    `).bind(...bindings, limit, offset).all();
 
-    const articles = results.results.map((row: any) => ({
-      ...row,
-      tags: JSON.parse(row.tags || '[]'),
-      view_count: Number(row.view_count),
-      like_count: Number(row.like_count),
-    }));
+    const terms = getSearchTerms(query);
+    const articles = results.results.map((row: any) => mapSearchResult(row, terms));
 
     // 生成搜索建议
     const suggestions = await generateSearchSuggestions(query, env.DB);
@@ -127,78 +141,71 @@ export async function advancedSearch(
     const dbService = new DatabaseService(env.DB);
     const offset = (page - 1) * limit;
 
+    const matchQuery = buildFtsQuery(query);
+
+    // 有搜索词时通过全文索引匹配，否则直接按条件筛选文章
+    const fromClause = matchQuery
+      ? 'FROM articles_fts JOIN articles a ON a.id = articles_fts.article_id'
+      : 'FROM articles a';
+
     // 构建查询条件
-    let whereClause = 'WHERE status = ?';
+    let whereClause = 'WHERE a.status = ?';
     const bindings: any[] = ['published'];
 
-    if (query.trim()) {
-      whereClause += ' AND (title LIKE ? OR content LIKE ? OR excerpt LIKE ?)';
-      bindings.push(`%${query}%`, `%${query}%`, `%${query}%`);
+    if (matchQuery) {
+      whereClause += ' AND articles_fts MATCH ?';
+      bindings.push(matchQuery);
     }
 
     if (categories.length > 0) {
       const categoryPlaceholders = categories.map(() => '?').join(',');
-      whereClause += ` AND category IN (${categoryPlaceholders})`;
+      whereClause += ` AND a.category IN (${categoryPlaceholders})`;
       bindings.push(...categories);
     }
 
     if (tags.length > 0) {
-      const tagConditions = tags.map(() => 'tags LIKE ?').join(' OR ');
-      whereClause += ` AND (${tagConditions})`;
-      bindings.push(...tags.map((tag: string) => `%"${tag}"%`));
+      const tagPlaceholders = tags.map(() => '?').join(',');
+      whereClause += ` AND a.id IN (SELECT article_id FROM article_tags WHERE tag_slug IN (${tagPlaceholders}))`;
+      bindings.push(...tags);
     }
 
     if (author) {
-      whereClause += ' AND author_id IN (SELECT id FROM users WHERE name LIKE ? OR username LIKE ?)';
+      whereClause += ' AND a.author_id IN (SELECT id FROM users WHERE name LIKE ? OR username LIKE ?)';
       bindings.push(`%${author}%`, `%${author}%`);
     }
 
     if (dateRange && dateRange.start && dateRange.end) {
-      whereClause += ' AND published_at BETWEEN ? AND ?';
+      whereClause += ' AND a.published_at BETWEEN ? AND ?';
       bindings.push(dateRange.start, dateRange.end);
     }
 
     // 排序逻辑
-    let orderBy = 'published_at DESC';
-    if (sortBy === 'relevance' && query.trim()) {
-      orderBy = `
-        CASE 
-          WHEN title LIKE ? THEN 1
-          WHEN excerpt LIKE ? THEN 2
-          ELSE 3
-        END,
-        published_at DESC
-      `;
-      bindings.push(`%${query}%`, `%${query}%`);
+    let orderBy = 'a.published_at DESC';
+    if (sortBy === 'relevance' && matchQuery) {
+      orderBy = 'score, a.published_at DESC';
     } else if (sortBy === 'views') {
-      orderBy = 'view_count DESC, published_at DESC';
+      orderBy = 'a.view_count DESC, a.published_at DESC';
     } else if (sortBy === 'date') {
-      orderBy = 'published_at DESC';
+      orderBy = 'a.published_at DESC';
     }
 
     // 获取总数
     const countResult = await env.DB.prepare(`
-      SELECT COUNT(*) as count FROM articles ${whereClause}
-    `).bind(...bindings.slice(0, bindings.length - (sortBy === 'relevance' && query.trim() ? 2 : 0))).first();
+      SELECT COUNT(*) as count ${fromClause} ${whereClause}
+    `).bind(...bindings).first();
     const total = countResult?.count as number || 0;
 
     // 获取结果
     const results = await env.DB.prepare(`
-      SELECT 
-        id, title, slug, excerpt, summary, cover_image, category, tags,
-        author_id, published_at, created_at, updated_at, view_count, like_count
-      FROM articles 
+      SELECT ${SEARCH_RESULT_COLUMNS}${matchQuery ? `, ${SEARCH_MATCH_COLUMNS}` : ''}
+      ${fromClause}
       ${whereClause}
       ORDER BY ${orderBy}
       LIMIT ? OFFSET ?
     `).bind(...bindings, limit, offset).all();
 
-    const articles = results.results.map((row: any) => ({
-      ...row,
-      tags: JSON.parse(row.tags || '[]'),
-      view_count: Number(row.view_count),
-      like_count: Number(row.like_count),
-    }));
+    const terms = getSearchTerms(query);
+    const articles = results.results.map((row: any) => mapSearchResult(row, terms));
 
     const totalPages = Math.ceil(total / limit);
 
@@ -225,6 +232,114 @@ export async function advancedSearch(
   }
 }
 
+/**
+ * 语义搜索（基于文章向量的相似度）
+ */
+export async function semanticSearch(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const query = url.searchParams.get('q') || '';
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '10'), 50);
+
+    if (!query.trim()) {
+      return createSuccessResponse({ articles: [], query: '' });
+    }
+
+    const matches = await new EmbeddingService(env).search(query, limit);
+    const scores = new Map(matches.map(match => [match.id, match.score]));
+
+    const dbService = new DatabaseService(env.DB);
+    const articles = await dbService.getPublishedArticlesByIds(matches.map(match => match.id));
+
+    return createSuccessResponse({
+      articles: articles.map(({ content, ...article }) => ({
+        ...article,
+        score: scores.get(article.id),
+      })),
+      query,
+    });
+  } catch (error) {
+    console.error('Semantic search error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Semantic search failed', 500);
+  }
+}
+
+/**
+ * 重建全文搜索索引
+ * 指定 embeddings=true 时同时重新生成已发布文章的向量
+ */
+export async function rebuildSearchIndex(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const url = new URL(request.url);
+    const includeEmbeddings = url.searchParams.get('embeddings') === 'true';
+
+    const dbService = new DatabaseService(env.DB);
+    const indexedCount = await dbService.rebuildSearchIndex();
+
+    let embeddedCount = 0;
+    if (includeEmbeddings) {
+      const embeddingService = new EmbeddingService(env);
+      if (!embeddingService.isEnabled()) {
+        throw new ApiError('Semantic search is not configured', 400);
+      }
+
+      const published = await env.DB.prepare(`
+        SELECT id, title, excerpt, content, status FROM articles WHERE status = 'published'
+      `).all();
+
+      for (const article of published.results) {
+        await embeddingService.syncArticle(article);
+        embeddedCount++;
+      }
+    }
+
+    return createSuccessResponse({
+      indexed_count: indexedCount,
+      ...(includeEmbeddings && { embedded_count: embeddedCount }),
+    }, 'Search index rebuilt');
+  } catch (error) {
+    console.error('Rebuild search index error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to rebuild search index', 500);
+  }
+}
+
+/**
+ * 映射搜索结果（有搜索词时附带相关度和高亮片段）
+ */
+function mapSearchResult(row: any, terms: string[]) {
+  const { score, content, ...article } = row;
+
+  return {
+    ...article,
+    tags: JSON.parse(row.tags || '[]'),
+    view_count: Number(row.view_count),
+    like_count: Number(row.like_count),
+    ...(score !== undefined && {
+      score: Number(score),
+      title_highlight: highlightTerms(row.title, terms),
+      snippet: buildSnippet(content, terms),
+    }),
+  };
+}
+
 /**
  * 生成搜索建议
  */
@@ -232,23 +347,13 @@ async function generateSearchSuggestions(query: string, db: any): Promise<string
   try {
     // 获取相关标签
     const tagResults = await db.prepare(`
-      SELECT DISTINCT tags FROM articles 
-      WHERE status = 'published' AND tags LIKE ?
+      SELECT DISTINCT at.tag_slug FROM article_tags at
+      JOIN articles a ON a.id = at.article_id
+      WHERE a.status = 'published' AND at.tag_slug LIKE ?
       LIMIT 5
     `).bind(`%${query}%`).all();
 
-    const suggestions: string[] = [];
-    
-    for (const result of tagResults.results) {
-      const tags = JSON.parse(result.tags as string || '[]');
-      for (const tag of tags) {
-        if (tag.toLowerCase().includes(query.toLowerCase()) && !suggestions.includes(tag)) {
-          suggestions.push(tag);
-          if (suggestions.length >= 5) break;
-        }
-      }
-      if (suggestions.length >= 5) break;
-    }
+    const suggestions: string[] = tagResults.results.map((result: any) => result.tag_slug as string);
 
     // 获取相关分类
     if (suggestions.length < 5) {
@@ -0,0 +1,368 @@
+import { Env, Context, Article, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
+import { createSuccessResponse, createErrorResponse, parseJSON, generateId, generateSlug } from '../utils';
+import { hasPermission } from '../utils/jwt';
+import { invalidateFeedCache } from '../utils/feed-cache';
+
+// 单个系列最多包含的文章数
+const MAX_SERIES_ARTICLES = 100;
+
+/**
+ * 获取系列列表
+ */
+export async function getSeriesList(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    const result = await env.DB.prepare(`
+      SELECT
+        s.*,
+        COUNT(a.id) as article_count
+      FROM series s
+      LEFT JOIN series_articles sa ON sa.series_id = s.id
+      LEFT JOIN articles a ON a.id = sa.article_id AND a.status = 'published'
+      GROUP BY s.id
+      ORDER BY s.updated_at DESC
+    `).all();
+
+    return createSuccessResponse(result.results.map((row: any) => ({
+      ...mapSeries(row),
+      article_count: Number(row.article_count || 0),
+    })));
+  } catch (error) {
+    console.error('Get series list error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get series list', 500);
+  }
+}
+
+/**
+ * 根据 slug 获取系列及其文章（按系列顺序）
+ */
+export async function getSeriesBySlug(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  slug: string
+): Promise<Response> {
+  try {
+    const dbService = new DatabaseService(env.DB);
+    const series = await dbService.getSeriesBySlug(slug);
+
+    if (!series) {
+      throw new ApiError('Series not found', 404);
+    }
+
+    // 协作者及以上可以看到系列中未发布的文章
+    const publishedOnly = !context.user || !hasPermission(context.user.role, 'collaborator');
+    const articles = await dbService.getSeriesArticles(series.id, publishedOnly);
+
+    return createSuccessResponse({
+      ...mapSeries(series),
+      articles: articles.map((article, index) => ({
+        ...mapSeriesArticle(article),
+        position: index + 1,
+      })),
+    });
+  } catch (error) {
+    console.error('Get series error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to get series', 500);
+  }
+}
+
+/**
+ * 创建系列
+ */
+export async function createSeries(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'collaborator')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const { title, slug, description, cover_image, article_ids } = await parseJSON(request);
+
+    if (!title) {
+      throw new ApiError('Title is required', 400);
+    }
+
+    const seriesSlug = slug || generateSlug(title);
+    const existing = await env.DB.prepare('SELECT id FROM series WHERE slug = ?').bind(seriesSlug).first();
+    if (existing) {
+      throw new ApiError('Series slug already exists', 400);
+    }
+
+    const seriesId = generateId();
+    const articleIds = article_ids !== undefined ? await validateSeriesArticleIds(env, seriesId, article_ids) : [];
+    const now = new Date().toISOString();
+
+    await env.DB.prepare(`
+      INSERT INTO series (id, title, slug, description, cover_image, created_at, updated_at, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      seriesId,
+      title,
+      seriesSlug,
+      description || null,
+      cover_image || null,
+      now,
+      now,
+      context.user.id
+    ).run();
+
+    const dbService = new DatabaseService(env.DB);
+    if (articleIds.length > 0) {
+      await dbService.setSeriesArticles(seriesId, articleIds);
+      ctx.waitUntil(invalidateFeedCache(env));
+    }
+
+    const series = await dbService.getSeriesById(seriesId);
+
+    return createSuccessResponse(series && mapSeries(series));
+  } catch (error) {
+    console.error('Create series error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to create series', 500);
+  }
+}
+
+/**
+ * 更新系列
+ */
+export async function updateSeries(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  seriesId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'collaborator')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const { title, slug, description, cover_image } = await parseJSON(request);
+
+    const dbService = new DatabaseService(env.DB);
+    const existing = await dbService.getSeriesById(seriesId);
+    if (!existing) {
+      throw new ApiError('Series not found', 404);
+    }
+
+    // 如果 slug 改变了，检查新 slug 是否已存在
+    if (slug && slug !== existing.slug) {
+      const slugExists = await env.DB.prepare('SELECT id FROM series WHERE slug = ? AND id != ?').bind(slug, seriesId).first();
+      if (slugExists) {
+        throw new ApiError('Series slug already exists', 400);
+      }
+    }
+
+    const updates: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (title !== undefined) updates.title = title;
+    if (slug) updates.slug = slug;
+    if (description !== undefined) updates.description = description;
+    if (cover_image !== undefined) updates.cover_image = cover_image;
+
+    const setClause = Object.keys(updates).map(key => `${key} = ?`).join(', ');
+    const values = Object.values(updates);
+
+    await env.DB.prepare(`UPDATE series SET ${setClause} WHERE id = ?`)
+      .bind(...values, seriesId)
+      .run();
+
+    ctx.waitUntil(invalidateFeedCache(env));
+
+    const series = await dbService.getSeriesById(seriesId);
+
+    return createSuccessResponse(series && mapSeries(series));
+  } catch (error) {
+    console.error('Update series error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to update series', 500);
+  }
+}
+
+/**
+ * 设置系列包含的文章及顺序
+ */
+export async function updateSeriesArticles(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  seriesId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'collaborator')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    const series = await dbService.getSeriesById(seriesId);
+    if (!series) {
+      throw new ApiError('Series not found', 404);
+    }
+
+    const { article_ids } = await parseJSON(request);
+    const articleIds = await validateSeriesArticleIds(env, seriesId, article_ids);
+
+    await dbService.setSeriesArticles(seriesId, articleIds);
+    await env.DB.prepare('UPDATE series SET updated_at = ? WHERE id = ?')
+      .bind(new Date().toISOString(), seriesId)
+      .run();
+
+    ctx.waitUntil(invalidateFeedCache(env));
+
+    const articles = await dbService.getSeriesArticles(seriesId, false);
+
+    return createSuccessResponse({
+      ...mapSeries(series),
+      articles: articles.map((article, index) => ({
+        ...mapSeriesArticle(article),
+        position: index + 1,
+      })),
+    });
+  } catch (error) {
+    console.error('Update series articles error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to update series articles', 500);
+  }
+}
+
+/**
+ * 删除系列（系列中的文章保留）
+ */
+export async function deleteSeries(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  seriesId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const series = await env.DB.prepare('SELECT id FROM series WHERE id = ?').bind(seriesId).first();
+    if (!series) {
+      throw new ApiError('Series not found', 404);
+    }
+
+    await env.DB.batch([
+      env.DB.prepare('DELETE FROM series_articles WHERE series_id = ?').bind(seriesId),
+      env.DB.prepare('DELETE FROM series WHERE id = ?').bind(seriesId),
+    ]);
+
+    ctx.waitUntil(invalidateFeedCache(env));
+
+    return createSuccessResponse({ message: 'Series deleted successfully' });
+  } catch (error) {
+    console.error('Delete series error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to delete series', 500);
+  }
+}
+
+/**
+ * 校验系列的文章 ID 列表：不能重复，文章必须存在且不属于其他系列
+ */
+async function validateSeriesArticleIds(env: Env, seriesId: string, value: unknown): Promise<string[]> {
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || !id)) {
+    throw new ApiError('article_ids must be an array of article IDs', 400);
+  }
+
+  const articleIds = value as string[];
+  if (new Set(articleIds).size !== articleIds.length) {
+    throw new ApiError('article_ids must not contain duplicates', 400);
+  }
+
+  if (articleIds.length > MAX_SERIES_ARTICLES) {
+    throw new ApiError(`A series can contain at most ${MAX_SERIES_ARTICLES} articles`, 400);
+  }
+
+  if (articleIds.length === 0) {
+    return [];
+  }
+
+  const placeholders = articleIds.map(() => '?').join(',');
+  const results = await env.DB.prepare(`
+    SELECT a.id, sa.series_id
+    FROM articles a
+    LEFT JOIN series_articles sa ON sa.article_id = a.id
+    WHERE a.id IN (${placeholders})
+  `).bind(...articleIds).all();
+
+  const found = new Map<string, string | null>(
+    results.results.map((row: any) => [row.id, row.series_id] as [string, string | null])
+  );
+
+  const missing = articleIds.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new ApiError(`Articles not found: ${missing.join(', ')}`, 400);
+  }
+
+  const taken = articleIds.filter(id => {
+    const currentSeries = found.get(id);
+    return currentSeries && currentSeries !== seriesId;
+  });
+  if (taken.length > 0) {
+    throw new ApiError(`Articles already belong to another series: ${taken.join(', ')}`, 400);
+  }
+
+  return articleIds;
+}
+
+/**
+ * 系列的响应格式
+ */
+function mapSeries(row: any) {
+  return {
+    id: row.id,
+    title: row.title,
+    slug: row.slug,
+    description: row.description,
+    cover_image: row.cover_image,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    created_by: row.created_by,
+  };
+}
+
+/**
+ * 系列中文章的响应格式（不包含正文）
+ */
+function mapSeriesArticle(article: Article) {
+  return {
+    id: article.id,
+    title: article.title,
+    slug: article.slug,
+    excerpt: article.excerpt,
+    cover_image: article.cover_image,
+    status: article.status,
+    published_at: article.published_at,
+    reading_time: article.reading_time,
+  };
+}
@@ -1,5 +1,7 @@
 import { Env, Context, ApiError } from '../types';
-import { createSuccessResponse, createErrorResponse } from '../utils';
+import { createSuccessResponse, createErrorResponse, escapeXml } from '../utils';
+import { getCachedFeed, setCachedFeed } from '../utils/feed-cache';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from '../utils/languages';
 
 /**
  * 生成主站点地图索引
@@ -11,6 +13,12 @@ export async function generateSitemapIndex(
   context: Context
 ): Promise<Response> {
   try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
     const siteUrl = env.SITE_URL || 'https://example.com';
     const now = new Date().toISOString();
 
@@ -32,14 +40,15 @@ export async function generateSitemapIndex(
     <loc>${siteUrl}/sitemap-tags.xml</loc>
     <lastmod>${now}</lastmod>
   </sitemap>
+  <sitemap>
+    <loc>${siteUrl}/sitemap-series.xml</loc>
+    <lastmod>${now}</lastmod>
+  </sitemap>
 </sitemapindex>`;
 
-    return new Response(sitemapIndex, {
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600', // 缓存1小时
-      },
-    });
+    await setCachedFeed(env, cacheKey, sitemapIndex);
+
+    return sitemapResponse(sitemapIndex);
   } catch (error) {
     console.error('Generate sitemap index error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate sitemap index', 500);
@@ -56,6 +65,12 @@ export async function generatePagesSitemap(
   context: Context
 ): Promise<Response> {
   try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
     const siteUrl = env.SITE_URL || 'https://example.com';
 
     // 获取已发布的页面
@@ -104,12 +119,9 @@ export async function generatePagesSitemap(
     sitemap += `
 </urlset>`;
 
-    return new Response(sitemap, {
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
+    await setCachedFeed(env, cacheKey, sitemap);
+
+    return sitemapResponse(sitemap);
   } catch (error) {
     console.error('Generate pages sitemap error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate pages sitemap', 500);
@@ -126,18 +138,27 @@ export async function generateArticlesSitemap(
   context: Context
 ): Promise<Response> {
   try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
     const siteUrl = env.SITE_URL || 'https://example.com';
 
     // 获取已发布的文章
     const articles = await env.DB.prepare(`
-      SELECT slug, published_at, updated_at, view_count
+      SELECT id, title, slug, published_at, updated_at, view_count, language,
+        cover_image, meta_title, og_title, og_description, meta_description
       FROM articles 
       WHERE status = 'published'
       ORDER BY published_at DESC
     `).all();
 
+    const articleLanguages = await getArticleLanguages(env);
+
     let sitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`;
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">`;
 
     articles.results.forEach((article: any) => {
       // 根据浏览量和发布时间计算优先级
@@ -159,24 +180,24 @@ export async function generateArticlesSitemap(
         changefreq = 'monthly';
       }
 
+      // 有译文的文章列出各语言版本
+      const languages = articleLanguages[article.id] || [];
+
       sitemap += `
   <url>
     <loc>${siteUrl}/articles/${article.slug}</loc>
     <lastmod>${article.updated_at}</lastmod>
     <changefreq>${changefreq}</changefreq>
-    <priority>${priority}</priority>
+    <priority>${priority}</priority>${languages.length > 1 ? buildHreflangLinks(siteUrl, article.slug, languages) : ''}${article.cover_image ? buildCoverImage(article) : ''}
   </url>`;
     });
 
     sitemap += `
 </urlset>`;
 
-    return new Response(sitemap, {
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
+    await setCachedFeed(env, cacheKey, sitemap);
+
+    return sitemapResponse(sitemap);
   } catch (error) {
     console.error('Generate articles sitemap error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate articles sitemap', 500);
@@ -193,6 +214,12 @@ export async function generateCategoriesSitemap(
   context: Context
 ): Promise<Response> {
   try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
     const siteUrl = env.SITE_URL || 'https://example.com';
 
     // 获取有文章的分类
@@ -229,12 +256,9 @@ export async function generateCategoriesSitemap(
     sitemap += `
 </urlset>`;
 
-    return new Response(sitemap, {
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
+    await setCachedFeed(env, cacheKey, sitemap);
+
+    return sitemapResponse(sitemap);
   } catch (error) {
     console.error('Generate categories sitemap error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate categories sitemap', 500);
@@ -251,13 +275,20 @@ export async function generateTagsSitemap(
   context: Context
 ): Promise<Response> {
   try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
     const siteUrl = env.SITE_URL || 'https://example.com';
 
     // 获取有文章的标签
     const tags = await env.DB.prepare(`
       SELECT t.slug, t.updated_at, COUNT(a.id) as article_count
       FROM tags t
-      LEFT JOIN articles a ON JSON_EXTRACT(a.tags, '$') LIKE '%"' || t.slug || '"%' AND a.status = 'published'
+      LEFT JOIN article_tags at ON at.tag_slug = t.slug
+      LEFT JOIN articles a ON a.id = at.article_id AND a.status = 'published'
       GROUP BY t.id, t.slug, t.updated_at
       HAVING article_count > 0
       ORDER BY article_count DESC
@@ -287,18 +318,70 @@ export async function generateTagsSitemap(
     sitemap += `
 </urlset>`;
 
-    return new Response(sitemap, {
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
+    await setCachedFeed(env, cacheKey, sitemap);
+
+    return sitemapResponse(sitemap);
   } catch (error) {
     console.error('Generate tags sitemap error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate tags sitemap', 500);
   }
 }
 
+/**
+ * 生成系列站点地图
+ */
+export async function generateSeriesSitemap(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context
+): Promise<Response> {
+  try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
+    const siteUrl = env.SITE_URL || 'https://example.com';
+
+    // 获取有已发布文章的系列，最后修改时间取系列和其中文章的较晚者
+    const series = await env.DB.prepare(`
+      SELECT s.slug, MAX(s.updated_at, MAX(a.updated_at)) as updated_at, COUNT(a.id) as article_count
+      FROM series s
+      JOIN series_articles sa ON sa.series_id = s.id
+      JOIN articles a ON a.id = sa.article_id AND a.status = 'published'
+      GROUP BY s.id, s.slug, s.updated_at
+      ORDER BY article_count DESC
+    `).all();
+
+    let sitemap = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`;
+
+    series.results.forEach((item: any) => {
+      const priority = Number(item.article_count) > 5 ? '0.8' : '0.7';
+
+      sitemap += `
+  <url>
+    <loc>${siteUrl}/series/${item.slug}</loc>
+    <lastmod>${item.updated_at}</lastmod>
+    <changefreq>weekly</changefreq>
+    <priority>${priority}</priority>
+  </url>`;
+    });
+
+    sitemap += `
+</urlset>`;
+
+    await setCachedFeed(env, cacheKey, sitemap);
+
+    return sitemapResponse(sitemap);
+  } catch (error) {
+    console.error('Generate series sitemap error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate series sitemap', 500);
+  }
+}
+
 /**
  * 生成多语言站点地图索引
  */
@@ -309,9 +392,15 @@ export async function generateMultilingualSitemapIndex(
   context: Context
 ): Promise<Response> {
   try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
     const siteUrl = env.SITE_URL || 'https://example.com';
     const now = new Date().toISOString();
-    const languages = ['zh', 'en', 'ja'];
+    const languages = SUPPORTED_LANGUAGES;
 
     let sitemapIndex = `<?xml version="1.0" encoding="UTF-8"?>
 <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`;
@@ -328,12 +417,9 @@ export async function generateMultilingualSitemapIndex(
     sitemapIndex += `
 </sitemapindex>`;
 
-    return new Response(sitemapIndex, {
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
+    await setCachedFeed(env, cacheKey, sitemapIndex);
+
+    return sitemapResponse(sitemapIndex);
   } catch (error) {
     console.error('Generate multilingual sitemap index error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate multilingual sitemap index', 500);
@@ -351,15 +437,25 @@ export async function generateLanguageSitemap(
   language: string
 ): Promise<Response> {
   try {
+    const cacheKey = new URL(request.url).pathname;
+    const cached = await getCachedFeed(env, cacheKey);
+    if (cached) {
+      return sitemapResponse(cached);
+    }
+
     const siteUrl = env.SITE_URL || 'https://example.com';
 
-    // 获取已发布的文章和页面
+    // 获取该语言的已发布文章（原文为该语言，或有该语言的已发布译文）和页面
     const articles = await env.DB.prepare(`
-      SELECT slug, published_at, updated_at
-      FROM articles 
-      WHERE status = 'published'
-      ORDER BY published_at DESC
-    `).all();
+      SELECT a.id, a.slug, a.published_at, COALESCE(t.updated_at, a.updated_at) as updated_at
+      FROM articles a
+      LEFT JOIN article_translations t
+        ON t.article_id = a.id AND t.language = ? AND t.status = 'published'
+      WHERE a.status = 'published' AND (a.language = ? OR t.id IS NOT NULL)
+      ORDER BY a.published_at DESC
+    `).bind(language, language).all();
+
+    const articleLanguages = await getArticleLanguages(env);
 
     const pages = await env.DB.prepare(`
       SELECT slug, updated_at
@@ -391,12 +487,14 @@ export async function generateLanguageSitemap(
 
     // 文章页面
     articles.results.forEach((article: any) => {
+      const languages = articleLanguages[article.id] || [language];
+
       sitemap += `
   <url>
     <loc>${siteUrl}/${language}/articles/${article.slug}</loc>
     <lastmod>${article.updated_at}</lastmod>
     <changefreq>monthly</changefreq>
-    <priority>0.8</priority>
+    <priority>0.8</priority>${languages.length > 1 ? buildHreflangLinks(siteUrl, article.slug, languages) : ''}
   </url>`;
     });
 
@@ -414,14 +512,76 @@ export async function generateLanguageSitemap(
     sitemap += `
 </urlset>`;
 
-    return new Response(sitemap, {
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=3600',
-      },
-    });
+    await setCachedFeed(env, cacheKey, sitemap);
+
+    return sitemapResponse(sitemap);
   } catch (error) {
     console.error('Generate language sitemap error:', error);
     return createErrorResponse(error instanceof ApiError ? error : 'Failed to generate language sitemap', 500);
   }
 }
+
+/**
+ * 获取已发布文章的全部语言版本（原文语言在前，其后为已发布译文的语言）
+ */
+async function getArticleLanguages(env: Env): Promise<Record<string, string[]>> {
+  const results = await env.DB.prepare(`
+    SELECT a.id as article_id, COALESCE(a.language, ?) as language, 0 as is_translation
+    FROM articles a
+    WHERE a.status = 'published'
+    UNION ALL
+    SELECT t.article_id, t.language, 1 as is_translation
+    FROM article_translations t
+    JOIN articles a ON a.id = t.article_id
+    WHERE a.status = 'published' AND t.status = 'published'
+    ORDER BY article_id, is_translation, language
+  `).bind(DEFAULT_LANGUAGE).all();
+
+  const languages: Record<string, string[]> = {};
+  for (const row of results.results as any[]) {
+    languages[row.article_id] = languages[row.article_id] || [];
+    languages[row.article_id].push(row.language);
+  }
+
+  return languages;
+}
+
+/**
+ * 生成文章各语言版本的 hreflang 链接，x-default 指向原文
+ */
+function buildHreflangLinks(siteUrl: string, slug: string, languages: string[]): string {
+  const links = languages.map(language => `
+    <xhtml:link rel="alternate" hreflang="${language}" href="${siteUrl}/${language}/articles/${slug}" />`);
+
+  links.push(`
+    <xhtml:link rel="alternate" hreflang="x-default" href="${siteUrl}/articles/${slug}" />`);
+
+  return links.join('');
+}
+
+/**
+ * 生成文章封面图的 image 扩展，标题和说明使用文章的分享文案
+ */
+function buildCoverImage(article: any): string {
+  const title = article.og_title || article.meta_title || article.title;
+  const caption = article.og_description || article.meta_description;
+
+  return `
+    <image:image>
+      <image:loc>${escapeXml(article.cover_image)}</image:loc>
+      <image:title>${escapeXml(title)}</image:title>${caption ? `
+      <image:caption>${escapeXml(caption)}</image:caption>` : ''}
+    </image:image>`;
+}
+
+/**
+ * 生成站点地图响应
+ */
+function sitemapResponse(body: string): Response {
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600', // 缓存1小时
+    },
+  });
+}
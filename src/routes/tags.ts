@@ -1,6 +1,9 @@
 import { Env, Context, ApiError } from '../types';
+import { DatabaseService } from '../services/database';
 import { createSuccessResponse, createErrorResponse, parseJSON, generateId } from '../utils';
 import { hasPermission } from '../utils/jwt';
+import { getSlugRedirectResponse } from '../utils/slug-redirects';
+import { invalidateFeedCache } from '../utils/feed-cache';
 
 /**
  * 获取标签列表
@@ -23,7 +26,8 @@ export async function getTags(
           t.*,
           COUNT(DISTINCT a.id) as article_count
         FROM tags t
-        LEFT JOIN articles a ON JSON_EXTRACT(a.tags, '$') LIKE '%"' || t.slug || '"%' AND a.status = 'published'
+        LEFT JOIN article_tags at ON at.tag_slug = t.slug
+        LEFT JOIN articles a ON a.id = at.article_id AND a.status = 'published'
         GROUP BY t.id
         ORDER BY t.order_index ASC, t.name ASC
       `;
@@ -99,6 +103,8 @@ export async function createTag(
       context.user.id
     ).run();
 
+    ctx.waitUntil(invalidateFeedCache(env));
+
     const tag = await env.DB.prepare('SELECT * FROM tags WHERE id = ?').bind(tagId).first();
 
     return createSuccessResponse({
@@ -170,6 +176,12 @@ export async function updateTag(
       .bind(...values, tagId)
       .run();
 
+    ctx.waitUntil(invalidateFeedCache(env));
+
+    if (slug && slug !== existing.slug) {
+      await new DatabaseService(env.DB).recordSlugRedirect('tag', tagId, existing.slug, slug, context.user.id);
+    }
+
     const tag = await env.DB.prepare('SELECT * FROM tags WHERE id = ?').bind(tagId).first();
 
     return createSuccessResponse({
@@ -216,8 +228,7 @@ export async function deleteTag(
 
     // 检查是否有文章使用此标签
     const articleCount = await env.DB.prepare(`
-      SELECT COUNT(*) as count FROM articles 
-      WHERE JSON_EXTRACT(tags, '$') LIKE '%"' || ? || '"%'
+      SELECT COUNT(*) as count FROM article_tags WHERE tag_slug = ?
     `).bind(tag.slug).first();
     
     if (articleCount && Number(articleCount.count) > 0) {
@@ -226,6 +237,9 @@ export async function deleteTag(
 
     // 删除标签
     await env.DB.prepare('DELETE FROM tags WHERE id = ?').bind(tagId).run();
+    await new DatabaseService(env.DB).deleteSlugRedirectsFor('tag', tagId);
+
+    ctx.waitUntil(invalidateFeedCache(env));
 
     return createSuccessResponse({ message: 'Tag deleted successfully' });
   } catch (error) {
@@ -250,12 +264,17 @@ export async function getTagBySlug(
         t.*,
         COUNT(DISTINCT a.id) as article_count
       FROM tags t
-      LEFT JOIN articles a ON JSON_EXTRACT(a.tags, '$') LIKE '%"' || t.slug || '"%' AND a.status = 'published'
+      LEFT JOIN article_tags at ON at.tag_slug = t.slug
+      LEFT JOIN articles a ON a.id = at.article_id AND a.status = 'published'
       WHERE t.slug = ?
       GROUP BY t.id
     `).bind(slug).first();
 
     if (!tag) {
+      const redirect = await getSlugRedirectResponse(request, env, 'tag', slug);
+      if (redirect) {
+        return redirect;
+      }
       throw new ApiError('Tag not found', 404);
     }
 
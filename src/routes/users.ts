@@ -140,6 +140,56 @@ export async function updateUserRole(
   }
 }
 
+/**
+ * 设置用户的发布权限（仅管理员）
+ * can_publish 为 null 时恢复按 publish_min_role 设置判断
+ */
+export async function updateUserPublishPermission(
+  request: Request,
+  env: Env,
+  ctx: any,
+  context: Context,
+  userId: string
+): Promise<Response> {
+  try {
+    if (!context.user) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    if (!hasPermission(context.user.role, 'admin')) {
+      throw new ApiError('Insufficient permissions', 403);
+    }
+
+    const { can_publish } = await parseJSON(request);
+
+    if (can_publish !== null && typeof can_publish !== 'boolean') {
+      throw new ApiError('can_publish must be a boolean or null', 400);
+    }
+
+    const dbService = new DatabaseService(env.DB);
+    
+    // 检查用户是否存在
+    const user = await dbService.getUserById(userId);
+    if (!user) {
+      throw new ApiError('User not found', 404);
+    }
+
+    await env.DB.prepare('UPDATE users SET can_publish = ?, updated_at = ? WHERE id = ?')
+      .bind(can_publish, new Date().toISOString(), userId)
+      .run();
+
+    const updatedUser = await dbService.getUserById(userId);
+    
+    return createSuccessResponse({
+      user: updatedUser,
+      message: 'User publish permission updated successfully',
+    });
+  } catch (error) {
+    console.error('Update user publish permission error:', error);
+    return createErrorResponse(error instanceof ApiError ? error : 'Failed to update user publish permission', 500);
+  }
+}
+
 /**
  * 禁用/启用用户（仅管理员）
  */
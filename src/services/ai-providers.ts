@@ -0,0 +1,530 @@
+import { Env, ApiError } from '../types';
+import { truncateText } from '../utils';
+import { readSSEData } from '../utils/sse';
+import { getSearchTokens } from '../utils/search-index';
+
+// 支持的 AI 提供方
+export type AIProviderName = 'workers-ai' | 'openai' | 'fake';
+
+// 需要单独配置模型的 AI 任务
+export type AITask = 'summary' | 'sentiment' | 'translation' | 'chat' | 'embedding' | 'vision';
+
+export type AIModelConfig = Record<AITask, string>;
+
+// 对话消息
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// 增量输出回调，不支持流式输出的模型会在完成后一次性回调完整结果
+export type TokenCallback = (text: string) => void | Promise<void>;
+
+export interface SummarizeOptions {
+  maxLength: number;
+  language: string;
+  onToken?: TokenCallback;
+}
+
+export interface DescribeImageOptions {
+  mimeType: string;
+  prompt: string;
+  maxTokens?: number;
+  // 跳过响应缓存重新生成，新结果会覆盖缓存
+  regenerate?: boolean;
+}
+
+/**
+ * AI 提供方接口
+ * 不支持专用模型的提供方（如 OpenAI 兼容接口）通过对话模型完成摘要、情感分析和翻译
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  summarize(model: string, text: string, options: SummarizeOptions): Promise<string>;
+  classifySentiment(model: string, text: string): Promise<'POSITIVE' | 'NEGATIVE' | null>;
+  translate(
+    model: string,
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    onToken?: TokenCallback
+  ): Promise<string>;
+  chat(model: string, messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  streamChat(model: string, messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<string>;
+  embed(model: string, texts: string[]): Promise<number[][]>;
+  describeImage(model: string, image: Uint8Array, options: DescribeImageOptions): Promise<string>;
+}
+
+// 各提供方的默认模型
+export const DEFAULT_AI_MODELS: Record<AIProviderName, AIModelConfig> = {
+  'workers-ai': {
+    summary: '@cf/facebook/bart-large-cnn',
+    sentiment: '@cf/huggingface/distilbert-sst-2-int8',
+    translation: '@cf/meta/m2m100-1.2b',
+    chat: '@cf/meta/llama-3.1-8b-instruct',
+    embedding: '@cf/baai/bge-m3',
+    vision: '@cf/llava-hf/llava-1.5-7b-hf',
+  },
+  openai: {
+    summary: 'gpt-4o-mini',
+    sentiment: 'gpt-4o-mini',
+    translation: 'gpt-4o-mini',
+    chat: 'gpt-4o-mini',
+    embedding: 'text-embedding-3-small',
+    vision: 'gpt-4o-mini',
+  },
+  fake: {
+    summary: 'fake-summary',
+    sentiment: 'fake-sentiment',
+    translation: 'fake-translation',
+    chat: 'fake-chat',
+    embedding: 'fake-embedding',
+    vision: 'fake-vision',
+  },
+};
+
+const AI_TASKS: AITask[] = ['summary', 'sentiment', 'translation', 'chat', 'embedding', 'vision'];
+
+// 假提供方生成的向量维度
+const FAKE_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Cloudflare Workers AI 提供方
+ */
+export class WorkersAIProvider implements AIProvider {
+  readonly name = 'workers-ai' as const;
+  private ai: any;
+
+  constructor(ai: any) {
+    this.ai = ai;
+  }
+
+  async summarize(model: string, text: string, options: SummarizeOptions): Promise<string> {
+    const response = await this.ai.run(model, {
+      input_text: text,
+      max_length: Math.min(options.maxLength, 200), // BART 模型的最大输出长度限制
+    });
+
+    if (!response || !response.summary) {
+      throw new Error('No summary generated');
+    }
+
+    await options.onToken?.(response.summary);
+    return response.summary;
+  }
+
+  async classifySentiment(model: string, text: string): Promise<'POSITIVE' | 'NEGATIVE' | null> {
+    const response = await this.ai.run(model, { text });
+
+    // 分类模型返回按分数排序的标签数组
+    const top = Array.isArray(response)
+      ? [...response].sort((a: any, b: any) => b.score - a.score)[0]
+      : response;
+
+    return top?.label === 'POSITIVE' || top?.label === 'NEGATIVE' ? top.label : null;
+  }
+
+  async translate(
+    model: string,
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    onToken?: TokenCallback
+  ): Promise<string> {
+    const response = await this.ai.run(model, {
+      text,
+      source_lang: sourceLanguage,
+      target_lang: targetLanguage,
+    });
+
+    const translated = response?.translated_text || text;
+    await onToken?.(translated);
+    return translated;
+  }
+
+  async chat(model: string, messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await this.ai.run(model, {
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+    });
+
+    return response?.response || '';
+  }
+
+  async *streamChat(model: string, messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const stream = await this.ai.run(model, {
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stream: true,
+    });
+
+    for await (const data of readSSEData(stream)) {
+      const chunk = safeParseChunk(data);
+      if (chunk?.response) {
+        yield chunk.response;
+      }
+    }
+  }
+
+  async embed(model: string, texts: string[]): Promise<number[][]> {
+    const response = await this.ai.run(model, { text: texts });
+    return response?.data || [];
+  }
+
+  async describeImage(model: string, image: Uint8Array, options: DescribeImageOptions): Promise<string> {
+    const response = await this.ai.run(model, {
+      image: Array.from(image),
+      prompt: options.prompt,
+      max_tokens: options.maxTokens,
+    });
+
+    return response?.description || '';
+  }
+}
+
+/**
+ * OpenAI 兼容接口提供方（/chat/completions 和 /embeddings）
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async summarize(model: string, text: string, options: SummarizeOptions): Promise<string> {
+    return this.complete(model, [
+      {
+        role: 'system',
+        content: `Summarize the article in ${options.language} in no more than ${options.maxLength} characters. Reply with the summary only.`,
+      },
+      { role: 'user', content: text },
+    ], { temperature: 0.3 }, options.onToken);
+  }
+
+  async classifySentiment(model: string, text: string): Promise<'POSITIVE' | 'NEGATIVE' | null> {
+    const answer = await this.chat(model, [
+      {
+        role: 'system',
+        content: 'Classify the sentiment of the text. Reply with exactly one word: POSITIVE or NEGATIVE.',
+      },
+      { role: 'user', content: text },
+    ], { temperature: 0, maxTokens: 5 });
+
+    const label = answer.trim().toUpperCase();
+    if (label.startsWith('POSITIVE')) return 'POSITIVE';
+    if (label.startsWith('NEGATIVE')) return 'NEGATIVE';
+    return null;
+  }
+
+  async translate(
+    model: string,
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    onToken?: TokenCallback
+  ): Promise<string> {
+    const translated = await this.complete(model, [
+      {
+        role: 'system',
+        content: `Translate the text from ${sourceLanguage} to ${targetLanguage}. Reply with the translation only.`,
+      },
+      { role: 'user', content: text },
+    ], { temperature: 0.2 }, onToken);
+
+    return translated || text;
+  }
+
+  async chat(model: string, messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await this.request('/chat/completions', {
+      model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+    });
+
+    const result: any = await response.json();
+    return result?.choices?.[0]?.message?.content || '';
+  }
+
+  async *streamChat(model: string, messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const response = await this.request('/chat/completions', {
+      model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stream: true,
+    });
+
+    if (!response.body) {
+      return;
+    }
+
+    for await (const data of readSSEData(response.body)) {
+      const content = safeParseChunk(data)?.choices?.[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  async embed(model: string, texts: string[]): Promise<number[][]> {
+    const response = await this.request('/embeddings', { model, input: texts });
+    const result: any = await response.json();
+
+    return (result?.data || [])
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+
+  async describeImage(model: string, image: Uint8Array, options: DescribeImageOptions): Promise<string> {
+    // 图片以 data URL 形式随消息发送
+    const response = await this.request('/chat/completions', {
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: options.prompt },
+            { type: 'image_url', image_url: { url: `data:${options.mimeType};base64,${encodeBase64(image)}` } },
+          ],
+        },
+      ],
+      max_tokens: options.maxTokens,
+    });
+
+    const result: any = await response.json();
+    return result?.choices?.[0]?.message?.content || '';
+  }
+
+  /**
+   * 生成完整回复，提供回调时使用流式接口逐段回调
+   */
+  private async complete(
+    model: string,
+    messages: ChatMessage[],
+    options: ChatOptions,
+    onToken?: TokenCallback
+  ): Promise<string> {
+    if (!onToken) {
+      return this.chat(model, messages, options);
+    }
+
+    let result = '';
+    for await (const token of this.streamChat(model, messages, options)) {
+      result += token;
+      await onToken(token);
+    }
+    return result;
+  }
+
+  /**
+   * 发送请求，非 2xx 响应视为失败
+   */
+  private async request(path: string, body: Record<string, any>): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`AI provider request failed: ${response.status} ${await response.text()}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * 确定性的假提供方，用于测试和没有模型可用的开发环境
+ * 相同输入总是得到相同输出，向量由词语哈希生成，相同词语越多的文本越相似
+ */
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake' as const;
+
+  async summarize(model: string, text: string, options: SummarizeOptions): Promise<string> {
+    const summary = truncateText(text.replace(/\s+/g, ' ').trim(), options.maxLength);
+    await emitWords(summary, options.onToken);
+    return summary;
+  }
+
+  async classifySentiment(): Promise<'POSITIVE' | 'NEGATIVE' | null> {
+    return 'POSITIVE';
+  }
+
+  async translate(
+    model: string,
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    onToken?: TokenCallback
+  ): Promise<string> {
+    const translated = `[${targetLanguage}] ${text}`;
+    await emitWords(translated, onToken);
+    return translated;
+  }
+
+  async chat(model: string, messages: ChatMessage[]): Promise<string> {
+    const lastMessage = [...messages].reverse().find(message => message.role === 'user');
+    return `[${model}] ${truncateText(lastMessage?.content || '', 200)}`;
+  }
+
+  async *streamChat(model: string, messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<string> {
+    const answer = await this.chat(model, messages);
+    for (const word of splitWords(answer)) {
+      yield word;
+    }
+  }
+
+  async embed(model: string, texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+      for (const token of getSearchTokens(text)) {
+        vector[hashToken(token) % FAKE_EMBEDDING_DIMENSIONS] += 1;
+      }
+      return vector;
+    });
+  }
+
+  async describeImage(model: string, image: Uint8Array, options: DescribeImageOptions): Promise<string> {
+    // 以图片内容的哈希作为标识，相同图片总是得到相同的描述
+    let hash = 0x811c9dc5;
+    for (const byte of image) {
+      hash ^= byte;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    const fingerprint = (hash >>> 0).toString(16).padStart(8, '0');
+
+    return JSON.stringify({
+      alt_text: `Image ${fingerprint}`,
+      caption: `A ${options.mimeType} image of ${image.byteLength} bytes (${fingerprint}).`,
+    });
+  }
+}
+
+/**
+ * 根据环境变量和 settings 表创建 AI 提供方及各任务使用的模型
+ * 优先级：settings 表（ai_provider、ai_model_<task>）> 环境变量（AI_PROVIDER、AI_MODEL_<TASK>）> 默认值
+ */
+export async function resolveAIProvider(env: Env): Promise<{ provider: AIProvider; models: AIModelConfig }> {
+  const settings = await loadAISettings(env);
+
+  const providerName = (settings.ai_provider || env.AI_PROVIDER
+    || (env.AI ? 'workers-ai' : env.AI_BASE_URL ? 'openai' : '')) as AIProviderName;
+
+  let provider: AIProvider;
+  switch (providerName) {
+    case 'workers-ai':
+      if (!env.AI) {
+        throw new ApiError('Workers AI binding is not configured', 503);
+      }
+      provider = new WorkersAIProvider(env.AI);
+      break;
+    case 'openai':
+      if (!env.AI_BASE_URL) {
+        throw new ApiError('AI_BASE_URL is not configured', 503);
+      }
+      provider = new OpenAICompatibleProvider(env.AI_BASE_URL, env.AI_API_KEY);
+      break;
+    case 'fake':
+      provider = new FakeAIProvider();
+      break;
+    default:
+      throw new ApiError('AI provider is not configured', 503);
+  }
+
+  const models = {} as AIModelConfig;
+  for (const task of AI_TASKS) {
+    models[task] = settings[`ai_model_${task}`]
+      || (env as any)[`AI_MODEL_${task.toUpperCase()}`]
+      || DEFAULT_AI_MODELS[provider.name][task];
+  }
+
+  return { provider, models };
+}
+
+/**
+ * 读取 settings 表中的 AI 配置
+ */
+async function loadAISettings(env: Env): Promise<Record<string, string>> {
+  try {
+    const result = await env.DB.prepare(`SELECT key, value FROM settings WHERE key LIKE 'ai\\_%' ESCAPE '\\'`).all();
+    return result.results.reduce((acc: Record<string, string>, row: any) => {
+      if (row.value) {
+        acc[row.key] = row.value;
+      }
+      return acc;
+    }, {});
+  } catch (error) {
+    console.warn('Failed to load AI settings:', error);
+    return {};
+  }
+}
+
+/**
+ * 解析流式响应中的 JSON 片段
+ */
+function safeParseChunk(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 将二进制数据编码为 Base64（分段转换，避免参数过多导致栈溢出）
+ */
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * 按空白切分文本（保留空白），用于模拟逐词输出
+ */
+function splitWords(text: string): string[] {
+  return text.split(/(?<=\s)/);
+}
+
+/**
+ * 逐词回调文本
+ */
+async function emitWords(text: string, onToken?: TokenCallback): Promise<void> {
+  if (!onToken) {
+    return;
+  }
+
+  for (const word of splitWords(text)) {
+    await onToken(word);
+  }
+}
+
+/**
+ * 计算词语的 FNV-1a 哈希
+ */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
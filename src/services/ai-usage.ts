@@ -0,0 +1,435 @@
+import { Env, User, AIQuota, ApiError } from '../types';
+import { generateId, hashString } from '../utils';
+import {
+  AIProvider,
+  ChatMessage,
+  ChatOptions,
+  DescribeImageOptions,
+  SummarizeOptions,
+  TokenCallback,
+} from './ai-providers';
+
+// 各角色默认的每日 AI 调用配额（-1 表示不限制），可通过 settings 表的 ai_quota_<role> 覆盖
+const DEFAULT_AI_DAILY_QUOTAS: Record<User['role'], number> = {
+  user: 20,
+  collaborator: 200,
+  admin: -1,
+};
+
+// AI 响应缓存时间（7 天）
+const AI_CACHE_TTL = 7 * 24 * 3600;
+
+// 发起 AI 调用的用户，系统任务为 null
+export type AIUsageUser = Pick<User, 'id' | 'role'>;
+
+interface AIUsageRecord {
+  operation: string;
+  provider: string;
+  model: string;
+  inputChars: number;
+  outputChars: number;
+  latencyMs: number;
+  cached: boolean;
+  success: boolean;
+}
+
+/**
+ * AI 调用配额与记录服务类
+ */
+export class AIUsageService {
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  /**
+   * 获取用户当天的配额使用情况（命中缓存和失败的调用不计入）
+   */
+  async getQuota(user: AIUsageUser): Promise<AIQuota> {
+    const [limit, usedRow] = await Promise.all([
+      this.getDailyLimit(user),
+      this.env.DB.prepare(`
+        SELECT COUNT(*) as count FROM ai_usage
+        WHERE user_id = ? AND cached = 0 AND success = 1 AND created_at >= ?
+      `).bind(user.id, getTodayStart()).first() as Promise<any>,
+    ]);
+
+    const used = usedRow?.count || 0;
+
+    return {
+      limit: limit < 0 ? null : limit,
+      used,
+      remaining: limit < 0 ? null : Math.max(0, limit - used),
+    };
+  }
+
+  /**
+   * 检查用户当天的配额是否已用完
+   */
+  async assertWithinQuota(user: AIUsageUser): Promise<void> {
+    const quota = await this.getQuota(user);
+    if (quota.remaining === 0) {
+      throw new ApiError('Daily AI quota exceeded', 429, 'AI_QUOTA_EXCEEDED');
+    }
+  }
+
+  /**
+   * 为一次未命中缓存的调用预占配额：配额检查和写入调用记录在同一条语句中完成，并发调用不会超出配额
+   * 返回调用记录 ID，调用结束后通过 complete 写入结果；失败的调用不计入配额
+   */
+  async reserve(user: AIUsageUser | null, record: AIUsageRecord): Promise<string> {
+    const id = generateId();
+    const limit = user ? await this.getDailyLimit(user) : -1;
+
+    const result = await this.env.DB.prepare(`
+      INSERT INTO ai_usage (
+        id, user_id, operation, provider, model, input_chars, output_chars, latency_ms, cached, success, created_at
+      )
+      SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+      WHERE ? < 0 OR (
+        SELECT COUNT(*) FROM ai_usage
+        WHERE user_id = ? AND cached = 0 AND success = 1 AND created_at >= ?
+      ) < ?
+    `).bind(
+      id,
+      user?.id ?? null,
+      record.operation,
+      record.provider,
+      record.model,
+      record.inputChars,
+      record.outputChars,
+      record.latencyMs,
+      record.cached ? 1 : 0,
+      record.success ? 1 : 0,
+      new Date().toISOString(),
+      limit,
+      user?.id ?? null,
+      getTodayStart(),
+      limit
+    ).run();
+
+    if (!result.meta?.changes) {
+      throw new ApiError('Daily AI quota exceeded', 429, 'AI_QUOTA_EXCEEDED');
+    }
+
+    return id;
+  }
+
+  /**
+   * 写入预占调用的结果（写入失败不影响 AI 调用结果）
+   */
+  async complete(id: string, outputChars: number, latencyMs: number, success: boolean): Promise<void> {
+    try {
+      await this.env.DB.prepare(`
+        UPDATE ai_usage SET output_chars = ?, latency_ms = ?, success = ? WHERE id = ?
+      `).bind(outputChars, latencyMs, success ? 1 : 0, id).run();
+    } catch (error) {
+      console.warn('Failed to record AI usage:', error);
+    }
+  }
+
+  /**
+   * 设置用户的每日配额，null 表示恢复为角色默认配额
+   */
+  async setUserQuota(userId: string, dailyQuota: number | null): Promise<void> {
+    await this.env.DB.prepare('UPDATE users SET ai_daily_quota = ? WHERE id = ?').bind(dailyQuota, userId).run();
+  }
+
+  /**
+   * 写入调用记录（记录失败不影响 AI 调用结果）
+   */
+  async record(userId: string | null, record: AIUsageRecord): Promise<void> {
+    try {
+      await this.env.DB.prepare(`
+        INSERT INTO ai_usage (
+          id, user_id, operation, provider, model, input_chars, output_chars, latency_ms, cached, success, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        generateId(),
+        userId,
+        record.operation,
+        record.provider,
+        record.model,
+        record.inputChars,
+        record.outputChars,
+        record.latencyMs,
+        record.cached ? 1 : 0,
+        record.success ? 1 : 0,
+        new Date().toISOString()
+      ).run();
+    } catch (error) {
+      console.warn('Failed to record AI usage:', error);
+    }
+  }
+
+  /**
+   * 统计最近若干天的 AI 调用情况
+   */
+  async getReport(days: number) {
+    const since = new Date(Date.now() - (days - 1) * 24 * 3600 * 1000).toISOString().slice(0, 10);
+
+    const summaryColumns = `
+      COUNT(*) as calls,
+      SUM(CASE WHEN cached = 1 THEN 1 ELSE 0 END) as cached_calls,
+      SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as failed_calls,
+      SUM(input_chars) as input_chars,
+      SUM(output_chars) as output_chars,
+      CAST(AVG(CASE WHEN cached = 0 THEN latency_ms END) AS INTEGER) as avg_latency_ms
+    `;
+
+    const [totals, byDay, byModel, byUser] = await Promise.all([
+      this.env.DB.prepare(`SELECT ${summaryColumns} FROM ai_usage WHERE created_at >= ?`).bind(since).first(),
+      this.env.DB.prepare(`
+        SELECT substr(created_at, 1, 10) as date, ${summaryColumns}
+        FROM ai_usage WHERE created_at >= ?
+        GROUP BY date ORDER BY date
+      `).bind(since).all(),
+      this.env.DB.prepare(`
+        SELECT provider, model, operation, ${summaryColumns}
+        FROM ai_usage WHERE created_at >= ?
+        GROUP BY provider, model, operation ORDER BY calls DESC
+      `).bind(since).all(),
+      this.env.DB.prepare(`
+        SELECT u.id as user_id, u.username, u.name, u.role, u.ai_daily_quota, ${summaryColumns}
+        FROM ai_usage
+        LEFT JOIN users u ON u.id = ai_usage.user_id
+        WHERE ai_usage.created_at >= ?
+        GROUP BY ai_usage.user_id ORDER BY calls DESC
+        LIMIT 50
+      `).bind(since).all(),
+    ]);
+
+    return {
+      since,
+      days,
+      totals,
+      byDay: byDay.results,
+      byModel: byModel.results,
+      byUser: byUser.results,
+    };
+  }
+
+  /**
+   * 用户的每日配额：用户单独设置 > settings 表中的角色配额 > 默认配额，-1 表示不限制
+   */
+  private async getDailyLimit(user: AIUsageUser): Promise<number> {
+    const [userRow, settingRow] = await Promise.all([
+      this.env.DB.prepare('SELECT ai_daily_quota FROM users WHERE id = ?').bind(user.id).first(),
+      this.env.DB.prepare('SELECT value FROM settings WHERE key = ?').bind(`ai_quota_${user.role}`).first(),
+    ]) as any[];
+
+    const settingQuota = settingRow?.value !== undefined ? parseInt(settingRow.value, 10) : NaN;
+    return userRow?.ai_daily_quota ?? (Number.isNaN(settingQuota)
+      ? DEFAULT_AI_DAILY_QUOTAS[user.role] ?? DEFAULT_AI_DAILY_QUOTAS.user
+      : settingQuota);
+  }
+
+  /**
+   * 读取缓存的 AI 响应
+   */
+  async getCached<T>(key: string): Promise<T | null> {
+    try {
+      const cached = await this.env.CACHE.get(key);
+      return cached ? JSON.parse(cached) : null;
+    } catch (error) {
+      console.warn('AI cache read failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 写入 AI 响应缓存
+   */
+  async setCached(key: string, value: unknown): Promise<void> {
+    try {
+      await this.env.CACHE.put(key, JSON.stringify(value), { expirationTtl: AI_CACHE_TTL });
+    } catch (error) {
+      console.warn('AI cache write failed:', error);
+    }
+  }
+}
+
+/**
+ * 带计量的 AI 提供方：相同模型和输入的调用直接返回 KV 缓存，其余调用在发起前预占用户配额并记录到 ai_usage 表
+ */
+export class MeteredAIProvider implements AIProvider {
+  private provider: AIProvider;
+  private usage: AIUsageService;
+  private user: AIUsageUser | null;
+  private userId: string | null;
+
+  constructor(provider: AIProvider, usage: AIUsageService, user: AIUsageUser | null) {
+    this.provider = provider;
+    this.usage = usage;
+    this.user = user;
+    this.userId = user?.id ?? null;
+  }
+
+  get name() {
+    return this.provider.name;
+  }
+
+  async summarize(model: string, text: string, options: SummarizeOptions): Promise<string> {
+    return this.meter('summarize', model, [text, options.maxLength, options.language], text.length,
+      () => this.provider.summarize(model, text, options),
+      result => result.length,
+      options.onToken);
+  }
+
+  async classifySentiment(model: string, text: string): Promise<'POSITIVE' | 'NEGATIVE' | null> {
+    return this.meter('classifySentiment', model, [text], text.length,
+      () => this.provider.classifySentiment(model, text),
+      result => result?.length || 0);
+  }
+
+  async translate(
+    model: string,
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    onToken?: TokenCallback
+  ): Promise<string> {
+    return this.meter('translate', model, [text, sourceLanguage, targetLanguage], text.length,
+      () => this.provider.translate(model, text, sourceLanguage, targetLanguage, onToken),
+      result => result.length,
+      onToken);
+  }
+
+  async chat(model: string, messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    return this.meter('chat', model, [messages, options], countMessageChars(messages),
+      () => this.provider.chat(model, messages, options),
+      result => result.length);
+  }
+
+  async *streamChat(model: string, messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    // 与 chat 共用缓存，流式和非流式请求可以互相命中
+    const cacheKey = await this.buildCacheKey('chat', model, [messages, options]);
+    const inputChars = countMessageChars(messages);
+
+    const cached = await this.usage.getCached<string>(cacheKey);
+    if (cached !== null) {
+      await this.usage.record(this.userId, this.buildRecord('streamChat', model, inputChars, cached.length, 0, true, true));
+      yield cached;
+      return;
+    }
+
+    const usageId = await this.usage.reserve(this.user, this.buildRecord('streamChat', model, inputChars, 0, 0, false, true));
+    const startTime = Date.now();
+    let result = '';
+
+    try {
+      for await (const token of this.provider.streamChat(model, messages, options)) {
+        result += token;
+        yield token;
+      }
+    } catch (error) {
+      await this.usage.complete(usageId, result.length, Date.now() - startTime, false);
+      throw error;
+    }
+
+    await this.usage.complete(usageId, result.length, Date.now() - startTime, true);
+    await this.usage.setCached(cacheKey, result);
+  }
+
+  async embed(model: string, texts: string[]): Promise<number[][]> {
+    return this.meter('embed', model, [texts], texts.reduce((sum, text) => sum + text.length, 0),
+      () => this.provider.embed(model, texts),
+      () => 0);
+  }
+
+  async describeImage(model: string, image: Uint8Array, options: DescribeImageOptions): Promise<string> {
+    // 图片按内容哈希参与缓存 key，输入量记为字节数
+    const { regenerate, ...describeOptions } = options;
+    return this.meter('describeImage', model, [await hashBytes(image), describeOptions], image.byteLength,
+      () => this.provider.describeImage(model, image, describeOptions),
+      result => result.length,
+      undefined,
+      regenerate);
+  }
+
+  /**
+   * 执行一次计量的调用：先查缓存，未命中时预占配额、调用提供方并记录耗时
+   * 命中缓存时通过 onToken 一次性回调完整结果；bypassCache 为 true 时不读取缓存，结果仍会写入缓存
+   */
+  private async meter<T>(
+    operation: string,
+    model: string,
+    input: unknown[],
+    inputChars: number,
+    call: () => Promise<T>,
+    measureOutput: (result: T) => number,
+    onToken?: TokenCallback,
+    bypassCache = false
+  ): Promise<T> {
+    const cacheKey = await this.buildCacheKey(operation, model, input);
+
+    const cached = bypassCache ? null : await this.usage.getCached<T>(cacheKey);
+    if (cached !== null) {
+      await this.usage.record(this.userId, this.buildRecord(operation, model, inputChars, measureOutput(cached), 0, true, true));
+      if (onToken && typeof cached === 'string') {
+        await onToken(cached);
+      }
+      return cached;
+    }
+
+    const usageId = await this.usage.reserve(this.user, this.buildRecord(operation, model, inputChars, 0, 0, false, true));
+    const startTime = Date.now();
+    let result: T;
+
+    try {
+      result = await call();
+    } catch (error) {
+      await this.usage.complete(usageId, 0, Date.now() - startTime, false);
+      throw error;
+    }
+
+    await this.usage.complete(usageId, measureOutput(result), Date.now() - startTime, true);
+    if (result !== null && result !== undefined) {
+      await this.usage.setCached(cacheKey, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * 根据提供方、模型和输入生成缓存 key
+   */
+  private async buildCacheKey(operation: string, model: string, input: unknown[]): Promise<string> {
+    return `ai_cache_${await hashString(JSON.stringify([this.provider.name, model, operation, ...input]))}`;
+  }
+
+  private buildRecord(
+    operation: string,
+    model: string,
+    inputChars: number,
+    outputChars: number,
+    latencyMs: number,
+    cached: boolean,
+    success: boolean
+  ): AIUsageRecord {
+    return { operation, provider: this.provider.name, model, inputChars, outputChars, latencyMs, cached, success };
+  }
+}
+
+/**
+ * 当天零点（UTC）的日期字符串，用于按天统计配额
+ */
+function getTodayStart(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * 计算二进制数据的 SHA-256
+ */
+async function hashBytes(data: Uint8Array): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 统计对话消息的字符数
+ */
+function countMessageChars(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + message.content.length, 0);
+}
@@ -1,5 +1,19 @@
-import { User, Article, FileRecord, FriendLink, QueryOptions, PaginatedResponse, WorkersD1Database } from '../types';
+import { User, Article, ArticleAuthor, ArticleAuthorRole, ArticlePreviewLink, ArticleRevision, ArticleStatusTransition, ArticleTranslation, ArticleSeriesNavigation, FileRecord, FriendLink, QueryOptions, PaginatedResponse, Series, SeriesArticleLink, SlugRedirect, SlugRedirectEntityType, WorkersD1Database } from '../types';
 import { generateId, calculatePagination } from '../utils';
+import { segmentCjk } from '../utils/search-index';
+import { DEFAULT_LANGUAGE } from '../utils/languages';
+import { computeContentStats, getContentStatsFields } from '../utils/content-stats';
+
+// 并发保存导致修订号冲突时的最大尝试次数
+const MAX_REVISION_INSERT_ATTEMPTS = 3;
+
+// 各类 slug 重定向对应的数据表
+const SLUG_REDIRECT_TABLES: Record<SlugRedirectEntityType, string> = {
+  article: 'articles',
+  page: 'pages',
+  category: 'categories',
+  tag: 'tags',
+};
 
 /**
  * 数据库服务类
@@ -138,7 +152,9 @@ export class DatabaseService {
     const article: Article = {
       id: generateId(),
       ...articleData,
+      ...computeContentStats(articleData.content),
       tags: Array.isArray(articleData.tags) ? articleData.tags : [],
+      language: articleData.language || DEFAULT_LANGUAGE,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
@@ -147,8 +163,9 @@ export class DatabaseService {
       INSERT INTO articles (
         id, title, slug, content, excerpt, summary, cover_image, status,
         category, tags, author_id, published_at, created_at, updated_at,
-        view_count, like_count
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        view_count, like_count, language, meta_title, meta_description,
+        meta_keywords, og_title, og_description, toc, word_count, reading_time
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       article.id,
       article.title,
@@ -165,12 +182,178 @@ export class DatabaseService {
       article.created_at,
       article.updated_at,
       article.view_count,
-      article.like_count
+      article.like_count,
+      article.language,
+      article.meta_title ?? null,
+      article.meta_description ?? null,
+      JSON.stringify(article.meta_keywords || []),
+      article.og_title ?? null,
+      article.og_description ?? null,
+      JSON.stringify(article.toc || []),
+      article.word_count ?? 0,
+      article.reading_time ?? 0
     ).run();
 
+    await this.setArticleTags(article.id, article.tags);
+    await this.indexArticleForSearch(article);
+
     return article;
   }
 
+  /**
+   * 设置文章的作者列表（按数组顺序署名，覆盖原有列表）
+   */
+  async setArticleAuthors(articleId: string, authors: { user_id: string; role: ArticleAuthorRole }[]): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM article_authors WHERE article_id = ?').bind(articleId),
+      ...authors.map((author, index) =>
+        this.db.prepare(
+          'INSERT INTO article_authors (article_id, user_id, role, position) VALUES (?, ?, ?, ?)'
+        ).bind(articleId, author.user_id, author.role, index)
+      ),
+    ]);
+  }
+
+  /**
+   * 批量获取文章的作者列表（按署名顺序）
+   */
+  async getArticleAuthors(articleIds: string[]): Promise<Record<string, ArticleAuthor[]>> {
+    const authors: Record<string, ArticleAuthor[]> = {};
+    if (articleIds.length === 0) {
+      return authors;
+    }
+
+    const placeholders = articleIds.map(() => '?').join(',');
+    const results = await this.db.prepare(`
+      SELECT aa.article_id, aa.user_id, aa.role, aa.position, u.name, u.username, u.avatar_url, u.website
+      FROM article_authors aa
+      JOIN users u ON u.id = aa.user_id
+      WHERE aa.article_id IN (${placeholders})
+      ORDER BY aa.article_id, aa.position
+    `).bind(...articleIds).all();
+
+    for (const row of results.results as any[]) {
+      const { article_id, ...author } = row;
+      authors[article_id] = authors[article_id] || [];
+      authors[article_id].push({ ...author, position: Number(author.position) });
+    }
+
+    return authors;
+  }
+
+  /**
+   * 判断用户是否为文章的作者之一（创建者或合著者）
+   */
+  async isArticleAuthor(articleId: string, userId: string): Promise<boolean> {
+    const result = await this.db.prepare(`
+      SELECT 1 FROM articles WHERE id = ? AND author_id = ?
+      UNION ALL
+      SELECT 1 FROM article_authors WHERE article_id = ? AND user_id = ?
+      LIMIT 1
+    `).bind(articleId, userId, articleId, userId).first();
+
+    return !!result;
+  }
+
+  /**
+   * 同步文章标签关联
+   */
+  async setArticleTags(articleId: string, tags: string[]): Promise<void> {
+    const statements = [
+      this.db.prepare('DELETE FROM article_tags WHERE article_id = ?').bind(articleId),
+    ];
+
+    tags
+      .map(tag => String(tag).trim())
+      .filter(tag => tag.length > 0)
+      .forEach((tag, index) => {
+        statements.push(
+          this.db.prepare(
+            'INSERT OR IGNORE INTO article_tags (article_id, tag_slug, position) VALUES (?, ?, ?)'
+          ).bind(articleId, tag, index)
+        );
+      });
+
+    await this.db.batch(statements);
+  }
+
+  /**
+   * 更新文章的全文搜索索引（中日韩文字切分为双字词后写入）
+   */
+  async indexArticleForSearch(article: Pick<Article, 'id' | 'title' | 'excerpt' | 'content'>): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM articles_fts WHERE article_id = ?').bind(article.id),
+      this.buildSearchIndexStatement(article),
+    ]);
+  }
+
+  /**
+   * 重建全文搜索索引
+   */
+  async rebuildSearchIndex(): Promise<number> {
+    const result = await this.db.prepare('SELECT id, title, excerpt, content FROM articles').all();
+
+    await this.db.batch([
+      this.db.prepare('DELETE FROM articles_fts'),
+      ...result.results.map((row: any) => this.buildSearchIndexStatement(row)),
+    ]);
+
+    return result.results.length;
+  }
+
+  /**
+   * 构建写入全文搜索索引的语句
+   */
+  private buildSearchIndexStatement(article: Pick<Article, 'id' | 'title' | 'excerpt' | 'content'>) {
+    return this.db.prepare(
+      'INSERT INTO articles_fts (article_id, title, excerpt, content) VALUES (?, ?, ?, ?)'
+    ).bind(
+      article.id,
+      segmentCjk(article.title),
+      segmentCjk(article.excerpt || ''),
+      segmentCjk(article.content || '')
+    );
+  }
+
+  /**
+   * 从全文搜索索引中移除文章
+   */
+  async removeArticleFromSearchIndex(articleId: string): Promise<void> {
+    await this.db.prepare('DELETE FROM articles_fts WHERE article_id = ?').bind(articleId).run();
+  }
+
+  /**
+   * 为缺少字数统计的文章和译文（统计功能上线前保存的数据）补算目录、字数和阅读时间
+   * 每次最多处理 limit 篇，返回处理的数量
+   */
+  async backfillContentStats(limit = 50): Promise<number> {
+    let processed = 0;
+
+    for (const table of ['articles', 'article_translations']) {
+      const results = await this.db.prepare(
+        `SELECT id, content FROM ${table} WHERE word_count IS NULL LIMIT ?`
+      ).bind(limit - processed).all();
+
+      if (results.results.length === 0) {
+        continue;
+      }
+
+      await this.db.batch(results.results.map((row: any) => {
+        const stats = getContentStatsFields(row.content);
+        return this.db.prepare(
+          `UPDATE ${table} SET toc = ?, word_count = ?, reading_time = ? WHERE id = ?`
+        ).bind(stats.toc, stats.word_count, stats.reading_time, row.id);
+      }));
+
+      processed += results.results.length;
+      if (processed >= limit) {
+        break;
+      }
+    }
+
+    return processed;
+  }
+
   /**
    * 根据 slug 获取文章
    */
@@ -182,11 +365,27 @@ export class DatabaseService {
     return result ? this.mapArticle(result) : null;
   }
 
+  /**
+   * 根据 ID 获取文章
+   */
+  async getArticleById(id: string): Promise<Article | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM articles WHERE id = ?'
+    ).bind(id).first();
+
+    return result ? this.mapArticle(result) : null;
+  }
+
   /**
    * 获取文章列表
    */
-  async getArticles(options: QueryOptions & { status?: string; author_id?: string } = {}): Promise<PaginatedResponse<Article>> {
-    const { limit = 20, offset = 0, orderBy = 'created_at DESC', status, author_id } = options;
+  async getArticles(options: QueryOptions & {
+    status?: string;
+    author_id?: string;
+    min_reading_time?: number;
+    max_reading_time?: number;
+  } = {}): Promise<PaginatedResponse<Article>> {
+    const { limit = 20, offset = 0, orderBy = 'created_at DESC', status, author_id, min_reading_time, max_reading_time } = options;
     
     let whereClause = '';
     const bindings: any[] = [];
@@ -197,8 +396,20 @@ export class DatabaseService {
     }
     
     if (author_id) {
-      whereClause += whereClause ? ' AND author_id = ?' : ' WHERE author_id = ?';
-      bindings.push(author_id);
+      // 创建者和合著者都算作者
+      const authorClause = '(author_id = ? OR id IN (SELECT article_id FROM article_authors WHERE user_id = ?))';
+      whereClause += whereClause ? ` AND ${authorClause}` : ` WHERE ${authorClause}`;
+      bindings.push(author_id, author_id);
+    }
+
+    if (min_reading_time !== undefined) {
+      whereClause += whereClause ? ' AND reading_time >= ?' : ' WHERE reading_time >= ?';
+      bindings.push(min_reading_time);
+    }
+
+    if (max_reading_time !== undefined) {
+      whereClause += whereClause ? ' AND reading_time <= ?' : ' WHERE reading_time <= ?';
+      bindings.push(max_reading_time);
     }
 
     // 获取总数
@@ -218,6 +429,631 @@ export class DatabaseService {
     return { items: articles, pagination };
   }
 
+  /**
+   * 根据 ID 获取已发布的文章（保持传入的顺序）
+   */
+  async getPublishedArticlesByIds(articleIds: string[]): Promise<Article[]> {
+    if (articleIds.length === 0) {
+      return [];
+    }
+
+    const placeholders = articleIds.map(() => '?').join(',');
+    const results = await this.db.prepare(`
+      SELECT * FROM articles WHERE status = 'published' AND id IN (${placeholders})
+    `).bind(...articleIds).all();
+
+    const articles = new Map<string, Article>(
+      results.results.map((row: any) => [row.id, this.mapArticle(row)] as [string, Article])
+    );
+
+    return articleIds
+      .map(id => articles.get(id))
+      .filter((article): article is Article => !!article);
+  }
+
+  /**
+   * 获取与指定文章标签重合最多的已发布文章
+   */
+  async getArticlesSharingTags(articleId: string, limit: number): Promise<Article[]> {
+    const results = await this.db.prepare(`
+      SELECT a.*, COUNT(*) as shared_tags
+      FROM article_tags at
+      JOIN article_tags source ON source.tag_slug = at.tag_slug AND source.article_id = ?
+      JOIN articles a ON a.id = at.article_id
+      WHERE at.article_id != ? AND a.status = 'published'
+      GROUP BY a.id
+      ORDER BY shared_tags DESC, a.published_at DESC
+      LIMIT ?
+    `).bind(articleId, articleId, limit).all();
+
+    return results.results.map(this.mapArticle);
+  }
+
+  /**
+   * 获取文章的表情回应数量
+   */
+  async getReactionCounts(articleIds: string[]): Promise<Record<string, Record<string, number>>> {
+    const counts: Record<string, Record<string, number>> = {};
+    if (articleIds.length === 0) {
+      return counts;
+    }
+
+    const placeholders = articleIds.map(() => '?').join(',');
+    const results = await this.db.prepare(`
+      SELECT article_id, reaction, COUNT(*) as count
+      FROM article_reactions
+      WHERE article_id IN (${placeholders})
+      GROUP BY article_id, reaction
+    `).bind(...articleIds).all();
+
+    for (const row of results.results) {
+      counts[row.article_id] = counts[row.article_id] || {};
+      counts[row.article_id][row.reaction] = Number(row.count);
+    }
+
+    return counts;
+  }
+
+  // ==================== 文章修订相关 ====================
+
+  /**
+   * 记录文章修订（保存文章当前状态的快照）
+   */
+  async createArticleRevision(
+    article: Pick<Article, 'id' | 'title' | 'slug' | 'content' | 'excerpt' | 'category' | 'status' | 'cover_image'> & { tags: string[] | string },
+    options: { changed_fields: string[]; created_by?: string; restored_from?: string; created_at?: string }
+  ): Promise<ArticleRevision> {
+    const revision: ArticleRevision = {
+      id: generateId(),
+      article_id: article.id,
+      revision_number: 0,
+      title: article.title,
+      slug: article.slug,
+      content: article.content,
+      excerpt: article.excerpt,
+      category: article.category,
+      tags: Array.isArray(article.tags) ? article.tags : JSON.parse(article.tags || '[]'),
+      status: article.status,
+      cover_image: article.cover_image,
+      changed_fields: options.changed_fields,
+      restored_from: options.restored_from,
+      created_by: options.created_by,
+      created_at: options.created_at || new Date().toISOString(),
+    };
+
+    // 修订号在插入语句中计算，并发保存撞上 UNIQUE(article_id, revision_number) 时重试
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const inserted = await this.db.prepare(`
+          INSERT INTO article_revisions (
+            id, article_id, revision_number, title, slug, content, excerpt,
+            category, tags, status, cover_image, changed_fields, restored_from,
+            created_by, created_at
+          )
+          SELECT ?, ?, COALESCE(MAX(revision_number), 0) + 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+          FROM article_revisions WHERE article_id = ?
+          RETURNING revision_number
+        `).bind(
+          revision.id,
+          revision.article_id,
+          revision.title,
+          revision.slug,
+          revision.content,
+          revision.excerpt ?? null,
+          revision.category ?? null,
+          JSON.stringify(revision.tags),
+          revision.status ?? null,
+          revision.cover_image ?? null,
+          JSON.stringify(revision.changed_fields),
+          revision.restored_from ?? null,
+          revision.created_by ?? null,
+          revision.created_at,
+          revision.article_id
+        ).first();
+
+        revision.revision_number = Number(inserted.revision_number);
+        break;
+      } catch (error) {
+        if (attempt >= MAX_REVISION_INSERT_ATTEMPTS || !String(error).includes('UNIQUE constraint failed')) {
+          throw error;
+        }
+      }
+    }
+
+    return revision;
+  }
+
+  /**
+   * 获取文章的修订列表（不包含正文）
+   */
+  async getArticleRevisions(articleId: string, options: QueryOptions = {}): Promise<PaginatedResponse<Omit<ArticleRevision, 'content'>>> {
+    const { limit = 20, offset = 0 } = options;
+
+    // 获取总数
+    const countResult = await this.db.prepare(
+      'SELECT COUNT(*) as count FROM article_revisions WHERE article_id = ?'
+    ).bind(articleId).first();
+    const total = countResult?.count as number || 0;
+
+    // 获取修订列表
+    const results = await this.db.prepare(`
+      SELECT
+        id, article_id, revision_number, title, slug, excerpt, category, tags,
+        status, cover_image, changed_fields, restored_from, created_by, created_at
+      FROM article_revisions
+      WHERE article_id = ?
+      ORDER BY revision_number DESC
+      LIMIT ? OFFSET ?
+    `).bind(articleId, limit, offset).all();
+
+    const revisions = results.results.map(this.mapArticleRevision);
+    const pagination = calculatePagination(Math.floor(offset / limit) + 1, limit, total);
+
+    return { items: revisions, pagination };
+  }
+
+  /**
+   * 获取单个文章修订
+   */
+  async getArticleRevision(articleId: string, revisionId: string): Promise<ArticleRevision | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM article_revisions WHERE article_id = ? AND id = ?'
+    ).bind(articleId, revisionId).first();
+
+    return result ? this.mapArticleRevision(result) : null;
+  }
+
+  // ==================== 文章审核相关 ====================
+
+  /**
+   * 记录文章状态变更
+   */
+  async recordArticleTransition(
+    transition: Omit<ArticleStatusTransition, 'id' | 'created_at'>
+  ): Promise<ArticleStatusTransition> {
+    const record: ArticleStatusTransition = {
+      id: generateId(),
+      ...transition,
+      created_at: new Date().toISOString(),
+    };
+
+    await this.db.prepare(`
+      INSERT INTO article_status_transitions (id, article_id, from_status, to_status, comment, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      record.id,
+      record.article_id,
+      record.from_status,
+      record.to_status,
+      record.comment ?? null,
+      record.created_by ?? null,
+      record.created_at
+    ).run();
+
+    return record;
+  }
+
+  /**
+   * 获取文章的状态变更记录（按时间倒序）
+   */
+  async getArticleTransitions(articleId: string): Promise<ArticleStatusTransition[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM article_status_transitions
+      WHERE article_id = ?
+      ORDER BY created_at DESC
+    `).bind(articleId).all();
+
+    return results.results as ArticleStatusTransition[];
+  }
+
+  /**
+   * 获取待审核的文章（最早投稿的在前），附带最近一次投稿的时间和投稿人
+   */
+  async getReviewQueue(options: QueryOptions = {}): Promise<PaginatedResponse<Article & { submitted_at?: string; submitted_by?: string }>> {
+    const { limit = 20, offset = 0 } = options;
+
+    const countResult = await this.db.prepare(
+      "SELECT COUNT(*) as count FROM articles WHERE status = 'in_review'"
+    ).first();
+    const total = countResult?.count as number || 0;
+
+    const results = await this.db.prepare(`
+      SELECT a.*, t.created_at as submitted_at, t.created_by as submitted_by
+      FROM articles a
+      LEFT JOIN article_status_transitions t ON t.id = (
+        SELECT id FROM article_status_transitions
+        WHERE article_id = a.id AND to_status = 'in_review'
+        ORDER BY created_at DESC
+        LIMIT 1
+      )
+      WHERE a.status = 'in_review'
+      ORDER BY COALESCE(t.created_at, a.updated_at) ASC
+      LIMIT ? OFFSET ?
+    `).bind(limit, offset).all();
+
+    const articles = results.results.map((row: any) => ({
+      ...this.mapArticle(row),
+      submitted_at: row.submitted_at ?? undefined,
+      submitted_by: row.submitted_by ?? undefined,
+    }));
+    const pagination = calculatePagination(Math.floor(offset / limit) + 1, limit, total);
+
+    return { items: articles, pagination };
+  }
+
+  // ==================== 文章预览链接相关 ====================
+
+  /**
+   * 创建预览链接记录（id 与预览 Token 的 jti 相同）
+   */
+  async createPreviewLink(
+    link: Omit<ArticlePreviewLink, 'revoked_at' | 'created_at'>
+  ): Promise<ArticlePreviewLink> {
+    const record: ArticlePreviewLink = {
+      ...link,
+      created_at: new Date().toISOString(),
+    };
+
+    await this.db.prepare(`
+      INSERT INTO article_preview_links (id, article_id, created_by, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(
+      record.id,
+      record.article_id,
+      record.created_by,
+      record.expires_at,
+      record.created_at
+    ).run();
+
+    return record;
+  }
+
+  /**
+   * 根据 ID 获取预览链接
+   */
+  async getPreviewLink(id: string): Promise<ArticlePreviewLink | null> {
+    const result = await this.db.prepare('SELECT * FROM article_preview_links WHERE id = ?').bind(id).first();
+    return result ? this.mapPreviewLink(result) : null;
+  }
+
+  /**
+   * 获取文章的预览链接（按创建时间倒序）
+   */
+  async getPreviewLinks(articleId: string): Promise<ArticlePreviewLink[]> {
+    const results = await this.db.prepare(`
+      SELECT * FROM article_preview_links
+      WHERE article_id = ?
+      ORDER BY created_at DESC
+    `).bind(articleId).all();
+
+    return results.results.map((row: any) => this.mapPreviewLink(row));
+  }
+
+  /**
+   * 撤销预览链接
+   */
+  async revokePreviewLink(id: string): Promise<void> {
+    await this.db.prepare('UPDATE article_preview_links SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+      .bind(new Date().toISOString(), id)
+      .run();
+  }
+
+  // ==================== 文章翻译相关 ====================
+
+  /**
+   * 获取文章的全部翻译（不包含正文）
+   */
+  async getArticleTranslations(articleId: string): Promise<Omit<ArticleTranslation, 'content'>[]> {
+    const results = await this.db.prepare(`
+      SELECT
+        id, article_id, language, title, excerpt, status, source,
+        source_updated_at, source_hash, word_count, reading_time, created_by, created_at, updated_at
+      FROM article_translations
+      WHERE article_id = ?
+      ORDER BY language
+    `).bind(articleId).all();
+
+    return results.results.map((row: any) => this.mapArticleTranslation(row)) as Omit<ArticleTranslation, 'content'>[];
+  }
+
+  /**
+   * 获取文章指定语言的翻译
+   */
+  async getArticleTranslation(articleId: string, language: string): Promise<ArticleTranslation | null> {
+    const result = await this.db.prepare(
+      'SELECT * FROM article_translations WHERE article_id = ? AND language = ?'
+    ).bind(articleId, language).first();
+
+    return result ? this.mapArticleTranslation(result) : null;
+  }
+
+  /**
+   * 保存文章翻译（同一语言已有翻译时覆盖）
+   */
+  async saveArticleTranslation(
+    translation: Omit<ArticleTranslation, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ArticleTranslation> {
+    const now = new Date().toISOString();
+    const stats = getContentStatsFields(translation.content);
+
+    await this.db.prepare(`
+      INSERT INTO article_translations (
+        id, article_id, language, title, excerpt, content, status, source,
+        source_updated_at, source_hash, toc, word_count, reading_time, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(article_id, language) DO UPDATE SET
+        title = excluded.title,
+        excerpt = excluded.excerpt,
+        content = excluded.content,
+        status = excluded.status,
+        source = excluded.source,
+        source_updated_at = excluded.source_updated_at,
+        source_hash = excluded.source_hash,
+        toc = excluded.toc,
+        word_count = excluded.word_count,
+        reading_time = excluded.reading_time,
+        updated_at = excluded.updated_at
+    `).bind(
+      generateId(),
+      translation.article_id,
+      translation.language,
+      translation.title,
+      translation.excerpt ?? null,
+      translation.content,
+      translation.status,
+      translation.source,
+      translation.source_updated_at ?? null,
+      translation.source_hash ?? null,
+      stats.toc,
+      stats.word_count,
+      stats.reading_time,
+      translation.created_by ?? null,
+      now,
+      now
+    ).run();
+
+    return (await this.getArticleTranslation(translation.article_id, translation.language))!;
+  }
+
+  /**
+   * 删除文章指定语言的翻译
+   */
+  async deleteArticleTranslation(articleId: string, language: string): Promise<void> {
+    await this.db.prepare(
+      'DELETE FROM article_translations WHERE article_id = ? AND language = ?'
+    ).bind(articleId, language).run();
+  }
+
+  /**
+   * 批量获取文章已发布翻译的语言
+   */
+  async getPublishedTranslationLanguages(articleIds: string[]): Promise<Record<string, string[]>> {
+    const languages: Record<string, string[]> = {};
+    if (articleIds.length === 0) {
+      return languages;
+    }
+
+    const placeholders = articleIds.map(() => '?').join(',');
+    const results = await this.db.prepare(`
+      SELECT article_id, language
+      FROM article_translations
+      WHERE status = 'published' AND article_id IN (${placeholders})
+      ORDER BY language
+    `).bind(...articleIds).all();
+
+    for (const row of results.results) {
+      languages[row.article_id] = languages[row.article_id] || [];
+      languages[row.article_id].push(row.language);
+    }
+
+    return languages;
+  }
+
+  // ==================== 系列相关 ====================
+
+  /**
+   * 根据 ID 获取系列
+   */
+  async getSeriesById(id: string): Promise<Series | null> {
+    const result = await this.db.prepare('SELECT * FROM series WHERE id = ?').bind(id).first();
+    return result as Series | null;
+  }
+
+  /**
+   * 根据 slug 获取系列
+   */
+  async getSeriesBySlug(slug: string): Promise<Series | null> {
+    const result = await this.db.prepare('SELECT * FROM series WHERE slug = ?').bind(slug).first();
+    return result as Series | null;
+  }
+
+  /**
+   * 按顺序获取系列中的文章
+   */
+  async getSeriesArticles(seriesId: string, publishedOnly = true): Promise<Article[]> {
+    const results = await this.db.prepare(`
+      SELECT a.*
+      FROM series_articles sa
+      JOIN articles a ON a.id = sa.article_id
+      WHERE sa.series_id = ?${publishedOnly ? " AND a.status = 'published'" : ''}
+      ORDER BY sa.position ASC
+    `).bind(seriesId).all();
+
+    return results.results.map(this.mapArticle);
+  }
+
+  /**
+   * 设置系列包含的文章及顺序（覆盖原有的文章列表）
+   */
+  async setSeriesArticles(seriesId: string, articleIds: string[]): Promise<void> {
+    const statements = [
+      this.db.prepare('DELETE FROM series_articles WHERE series_id = ?').bind(seriesId),
+      ...articleIds.map((articleId, index) =>
+        this.db.prepare(
+          'INSERT INTO series_articles (series_id, article_id, position) VALUES (?, ?, ?)'
+        ).bind(seriesId, articleId, index)
+      ),
+    ];
+
+    await this.db.batch(statements);
+  }
+
+  /**
+   * 获取文章所属系列及前后篇（只在已发布的文章之间导航）
+   */
+  async getArticleSeriesNavigation(articleId: string): Promise<ArticleSeriesNavigation | null> {
+    const series = await this.db.prepare(`
+      SELECT s.id, s.title, s.slug
+      FROM series_articles sa
+      JOIN series s ON s.id = sa.series_id
+      WHERE sa.article_id = ?
+    `).bind(articleId).first();
+
+    if (!series) {
+      return null;
+    }
+
+    // 当前文章未发布（如作者预览草稿）时也保留它在系列中的位置
+    const results = await this.db.prepare(`
+      SELECT a.id, a.title, a.slug
+      FROM series_articles sa
+      JOIN articles a ON a.id = sa.article_id
+      WHERE sa.series_id = ? AND (a.status = 'published' OR a.id = ?)
+      ORDER BY sa.position ASC
+    `).bind(series.id, articleId).all();
+
+    const parts = results.results as SeriesArticleLink[];
+    const index = parts.findIndex(part => part.id === articleId);
+
+    return {
+      id: series.id,
+      title: series.title,
+      slug: series.slug,
+      position: index + 1,
+      total: parts.length,
+      previous: index > 0 ? parts[index - 1] : null,
+      next: index < parts.length - 1 ? parts[index + 1] : null,
+    };
+  }
+
+  // ==================== Slug 重定向相关 ====================
+
+  /**
+   * 记录 slug 变更：旧 slug 重定向到该记录，新 slug 上原有的重定向失效
+   */
+  async recordSlugRedirect(
+    entityType: SlugRedirectEntityType,
+    entityId: string,
+    oldSlug: string,
+    newSlug: string,
+    createdBy?: string
+  ): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM slug_redirects WHERE entity_type = ? AND old_slug = ?').bind(entityType, newSlug),
+      this.db.prepare(`
+        INSERT INTO slug_redirects (id, entity_type, old_slug, entity_id, created_by, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (entity_type, old_slug) DO UPDATE SET
+          entity_id = excluded.entity_id,
+          created_by = excluded.created_by,
+          created_at = excluded.created_at
+      `).bind(generateId(), entityType, oldSlug, entityId, createdBy ?? null, new Date().toISOString()),
+    ]);
+  }
+
+  /**
+   * 查找旧 slug 重定向到的当前 slug
+   */
+  async getSlugRedirectTarget(entityType: SlugRedirectEntityType, slug: string): Promise<string | null> {
+    const result = await this.db.prepare(`
+      SELECT t.slug
+      FROM slug_redirects r
+      JOIN ${SLUG_REDIRECT_TABLES[entityType]} t ON t.id = r.entity_id
+      WHERE r.entity_type = ? AND r.old_slug = ?
+    `).bind(entityType, slug).first();
+
+    return result ? result.slug : null;
+  }
+
+  /**
+   * 根据 slug 查找记录 ID
+   */
+  async getSlugEntityId(entityType: SlugRedirectEntityType, slug: string): Promise<string | null> {
+    const result = await this.db.prepare(`SELECT id FROM ${SLUG_REDIRECT_TABLES[entityType]} WHERE slug = ?`)
+      .bind(slug)
+      .first();
+
+    return result ? result.id : null;
+  }
+
+  /**
+   * 获取 slug 重定向列表（附带目标记录当前的 slug）
+   */
+  async getSlugRedirects(options: QueryOptions & { entity_type?: SlugRedirectEntityType } = {}): Promise<PaginatedResponse<SlugRedirect>> {
+    const { limit = 20, offset = 0, entity_type } = options;
+
+    const whereClause = entity_type ? ' WHERE r.entity_type = ?' : '';
+    const bindings: any[] = entity_type ? [entity_type] : [];
+
+    const countResult = await this.db.prepare(`SELECT COUNT(*) as count FROM slug_redirects r${whereClause}`)
+      .bind(...bindings)
+      .first();
+    const total = countResult?.count || 0;
+
+    const joins = Object.entries(SLUG_REDIRECT_TABLES)
+      .map(([type, table]) => `LEFT JOIN ${table} t_${type} ON r.entity_type = '${type}' AND t_${type}.id = r.entity_id`)
+      .join('\n      ');
+    const targetSlug = Object.keys(SLUG_REDIRECT_TABLES).map(type => `t_${type}.slug`).join(', ');
+
+    const results = await this.db.prepare(`
+      SELECT r.*, COALESCE(${targetSlug}) as target_slug
+      FROM slug_redirects r
+      ${joins}${whereClause}
+      ORDER BY r.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...bindings, limit, offset).all();
+
+    const redirects = results.results.map((row: any) => this.mapSlugRedirect(row));
+    const pagination = calculatePagination(Math.floor(offset / limit) + 1, limit, total);
+
+    return { items: redirects, pagination };
+  }
+
+  /**
+   * 根据 ID 获取 slug 重定向
+   */
+  async getSlugRedirectById(id: string): Promise<SlugRedirect | null> {
+    const result = await this.db.prepare('SELECT * FROM slug_redirects WHERE id = ?').bind(id).first();
+    return result ? this.mapSlugRedirect(result) : null;
+  }
+
+  /**
+   * 根据旧 slug 获取 slug 重定向
+   */
+  async getSlugRedirectBySlug(entityType: SlugRedirectEntityType, oldSlug: string): Promise<SlugRedirect | null> {
+    const result = await this.db.prepare('SELECT * FROM slug_redirects WHERE entity_type = ? AND old_slug = ?')
+      .bind(entityType, oldSlug)
+      .first();
+
+    return result ? this.mapSlugRedirect(result) : null;
+  }
+
+  /**
+   * 删除 slug 重定向
+   */
+  async deleteSlugRedirect(id: string): Promise<void> {
+    await this.db.prepare('DELETE FROM slug_redirects WHERE id = ?').bind(id).run();
+  }
+
+  /**
+   * 删除指向某条记录的所有 slug 重定向（记录被删除时调用）
+   */
+  async deleteSlugRedirectsFor(entityType: SlugRedirectEntityType, entityId: string): Promise<void> {
+    await this.db.prepare('DELETE FROM slug_redirects WHERE entity_type = ? AND entity_id = ?')
+      .bind(entityType, entityId)
+      .run();
+  }
+
   // ==================== 文件相关 ====================
 
   /**
@@ -289,6 +1125,21 @@ export class DatabaseService {
     return { items: files, pagination };
   }
 
+  /**
+   * 根据 ID 获取文件记录
+   */
+  async getFileById(id: string): Promise<FileRecord | null> {
+    const result = await this.db.prepare('SELECT * FROM files WHERE id = ?').bind(id).first();
+    return result ? this.mapFile(result) : null;
+  }
+
+  /**
+   * 更新文件元数据（整体替换）
+   */
+  async updateFileMetadata(id: string, metadata: Record<string, any>): Promise<void> {
+    await this.db.prepare('UPDATE files SET metadata = ? WHERE id = ?').bind(JSON.stringify(metadata), id).run();
+  }
+
   // ==================== 友情链接相关 ====================
 
   /**
@@ -356,6 +1207,7 @@ export class DatabaseService {
     return {
       ...row,
       is_active: Boolean(row.is_active),
+      can_publish: row.can_publish === null || row.can_publish === undefined ? null : Boolean(row.can_publish),
     };
   }
 
@@ -363,8 +1215,45 @@ export class DatabaseService {
     return {
       ...row,
       tags: JSON.parse(row.tags || '[]'),
+      meta_keywords: JSON.parse(row.meta_keywords || '[]'),
       view_count: Number(row.view_count),
       like_count: Number(row.like_count),
+      toc: JSON.parse(row.toc || '[]'),
+      word_count: Number(row.word_count || 0),
+      reading_time: Number(row.reading_time || 0),
+    };
+  }
+
+  private mapArticleTranslation(row: any): ArticleTranslation {
+    return {
+      ...row,
+      ...(row.toc !== undefined && { toc: JSON.parse(row.toc || '[]') }),
+      word_count: Number(row.word_count || 0),
+      reading_time: Number(row.reading_time || 0),
+    };
+  }
+
+  private mapArticleRevision(row: any): ArticleRevision {
+    return {
+      ...row,
+      revision_number: Number(row.revision_number),
+      tags: JSON.parse(row.tags || '[]'),
+      changed_fields: JSON.parse(row.changed_fields || '[]'),
+    };
+  }
+
+  private mapPreviewLink(row: any): ArticlePreviewLink {
+    return {
+      ...row,
+      revoked_at: row.revoked_at ?? undefined,
+    };
+  }
+
+  private mapSlugRedirect(row: any): SlugRedirect {
+    return {
+      ...row,
+      target_slug: row.target_slug ?? undefined,
+      created_by: row.created_by ?? undefined,
     };
   }
 
@@ -0,0 +1,110 @@
+import { Env, Article, ApiError } from '../types';
+import { AIService } from './ai';
+import { createVectorStore, VectorMatch, VectorStore } from './vector-store';
+
+/**
+ * 文章向量服务类
+ */
+export class EmbeddingService {
+  private env: Env;
+  private aiService?: AIService;
+  private store: VectorStore | null;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.store = createVectorStore(env);
+  }
+
+  /**
+   * 是否配置了向量索引
+   */
+  isEnabled(): boolean {
+    return this.store !== null;
+  }
+
+  /**
+   * 同步文章向量：已发布的文章写入索引，其他状态从索引中移除（未配置向量索引时跳过）
+   */
+  async syncArticle(article: Pick<Article, 'id' | 'title' | 'excerpt' | 'content' | 'status'>): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      if (article.status !== 'published') {
+        await this.store.delete([article.id]);
+        return;
+      }
+
+      const aiService = await this.getAIService();
+      const embedding = await aiService.generateEmbedding(this.buildArticleText(article));
+      await this.store.upsert(article.id, embedding);
+    } catch (error) {
+      console.error('Sync article embedding error:', error);
+    }
+  }
+
+  /**
+   * 从索引中移除文章向量
+   */
+  async removeArticle(articleId: string): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      await this.store.delete([articleId]);
+    } catch (error) {
+      console.error('Remove article embedding error:', error);
+    }
+  }
+
+  /**
+   * 按语义检索文章
+   */
+  async search(query: string, topK: number): Promise<VectorMatch[]> {
+    const store = this.requireStore();
+    const aiService = await this.getAIService();
+    const embedding = await aiService.generateEmbedding(query);
+    return store.query(embedding, topK);
+  }
+
+  /**
+   * 查找语义相近的文章（不包含文章本身）
+   */
+  async findRelated(article: Pick<Article, 'id' | 'title' | 'excerpt' | 'content'>, topK: number): Promise<VectorMatch[]> {
+    const store = this.requireStore();
+    const embedding = await store.getById(article.id)
+      || await (await this.getAIService()).generateEmbedding(this.buildArticleText(article));
+
+    const matches = await store.query(embedding, topK + 1);
+    return matches.filter(match => match.id !== article.id).slice(0, topK);
+  }
+
+  /**
+   * 获取向量索引，未配置时抛出错误
+   */
+  private requireStore(): VectorStore {
+    if (!this.store) {
+      throw new ApiError('Semantic search is not configured', 503);
+    }
+    return this.store;
+  }
+
+  /**
+   * 按需创建 AI 服务（只读取向量索引时不需要加载 AI 配置）
+   */
+  private async getAIService(): Promise<AIService> {
+    if (!this.aiService) {
+      this.aiService = await AIService.create(this.env);
+    }
+    return this.aiService;
+  }
+
+  /**
+   * 拼接用于生成向量的文章文本
+   */
+  private buildArticleText(article: Pick<Article, 'title' | 'excerpt' | 'content'>): string {
+    return [article.title, article.excerpt, article.content].filter(Boolean).join('\n\n');
+  }
+}
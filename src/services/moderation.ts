@@ -0,0 +1,180 @@
+import { Env, ModerationResult, ModerationScores } from '../types';
+import { AIService } from './ai';
+
+// 自动拒绝的默认阈值，可通过 settings 表的 moderation_threshold_<score> 修改
+const DEFAULT_MODERATION_THRESHOLD = 0.9;
+
+const MODERATION_SCORES: (keyof ModerationScores)[] = ['spam', 'toxicity', 'link_farming'];
+
+// 常见的垃圾广告用语
+const SPAM_KEYWORDS = [
+  'casino', 'viagra', 'cialis', 'porn', 'payday loan', 'forex', 'betting', 'crypto giveaway',
+  'buy followers', 'seo service', 'backlinks', 'free money', 'click here', 'work from home',
+  '赌场', '博彩', '彩票', '代开发票', '贷款', '色情', '加微信', '刷单', '兼职日结', '代孕',
+];
+
+// 明显的攻击性用语（技术文章中常见的词不列入，避免误判）
+const TOXIC_KEYWORDS = [
+  'idiot', 'moron', 'retard', 'fuck', 'bitch', 'kill yourself', 'stfu',
+  '傻逼', '脑残', '去死', '操你', '废物',
+];
+
+// 常用于隐藏真实地址的短链接域名
+const URL_SHORTENERS = ['bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'cutt.ly', 'rebrand.ly'];
+
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/gi;
+
+export interface ModerationInput {
+  // 需要审核的文本（如评论内容、友链名称和描述）
+  text: string;
+  // 随内容提交的链接（如评论者网站、友链地址），只检查域名，不计入链接数量
+  urls?: (string | null | undefined)[];
+}
+
+/**
+ * 用户提交内容审核服务类
+ * 优先使用 AI 打分，同时计算启发式评分并取两者较高值；AI 不可用时只使用启发式评分
+ * 启发式评分已超过阈值时结果不会因 AI 评分改变，不再调用 AI
+ */
+export class ModerationService {
+  private env: Env;
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  /**
+   * 审核一条提交内容
+   */
+  async moderate(input: ModerationInput): Promise<ModerationResult> {
+    const heuristic = this.scoreHeuristically(input);
+    const thresholds = await this.getThresholds();
+    let scores = heuristic;
+    let source: ModerationResult['source'] = 'heuristic';
+
+    const decisive = MODERATION_SCORES.some(score => heuristic[score] >= thresholds[score]);
+    if (!decisive) {
+      try {
+        // 匿名提交不计入任何用户的配额
+        const aiService = await AIService.create(this.env);
+        const aiScores = await aiService.scoreModeration(input.text);
+
+        scores = {
+          spam: Math.max(aiScores.spam, heuristic.spam),
+          toxicity: Math.max(aiScores.toxicity, heuristic.toxicity),
+          link_farming: Math.max(aiScores.link_farming, heuristic.link_farming),
+        };
+        source = 'ai';
+      } catch (error) {
+        console.warn('AI moderation failed, using heuristic scores:', error);
+      }
+    }
+
+    return {
+      scores: roundScores(scores),
+      source,
+      flagged: MODERATION_SCORES.filter(score => scores[score] >= thresholds[score]),
+      checked_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * 读取自动拒绝阈值
+   */
+  private async getThresholds(): Promise<ModerationScores> {
+    const thresholds: ModerationScores = {
+      spam: DEFAULT_MODERATION_THRESHOLD,
+      toxicity: DEFAULT_MODERATION_THRESHOLD,
+      link_farming: DEFAULT_MODERATION_THRESHOLD,
+    };
+
+    try {
+      const result = await this.env.DB.prepare(
+        `SELECT key, value FROM settings WHERE key LIKE 'moderation\\_threshold\\_%' ESCAPE '\\'`
+      ).all();
+
+      for (const row of result.results as any[]) {
+        const score = row.key.replace('moderation_threshold_', '') as keyof ModerationScores;
+        const value = parseFloat(row.value);
+        if (MODERATION_SCORES.includes(score) && !Number.isNaN(value)) {
+          thresholds[score] = value;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load moderation thresholds:', error);
+    }
+
+    return thresholds;
+  }
+
+  /**
+   * 启发式评分：广告和攻击性用语、重复字符、全大写，以及链接的数量、域名和短链接
+   */
+  private scoreHeuristically(input: ModerationInput): ModerationScores {
+    const text = input.text.toLowerCase();
+    const links = input.text.match(URL_PATTERN) || [];
+    const hosts = [...links, ...(input.urls || []).filter((url): url is string => !!url)]
+      .map(getHostname)
+      .filter((host): host is string => !!host);
+
+    let spam = countKeywords(text, SPAM_KEYWORDS) * 0.3;
+    spam += hosts.filter(host => SPAM_KEYWORDS.some(keyword => host.includes(keyword.replace(/\s+/g, '')))).length * 0.3;
+    if (/(.)\1{9,}/u.test(input.text)) {
+      spam += 0.2;
+    }
+    const letters = input.text.replace(/[^a-zA-Z]/g, '');
+    if (letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) {
+      spam += 0.2;
+    }
+
+    const toxicity = countKeywords(text, TOXIC_KEYWORDS) * 0.4;
+
+    // 正文中的链接越多、域名越分散，越像是为了外链而提交
+    let linkFarming = links.length >= 5 ? 0.9 : links.length * 0.15;
+    if (new Set(hosts).size >= 3) {
+      linkFarming += 0.2;
+    }
+    if (hosts.some(host => URL_SHORTENERS.includes(host))) {
+      linkFarming += 0.3;
+    }
+    const linkChars = links.reduce((sum, link) => sum + link.length, 0);
+    if (links.length > 0 && linkChars / input.text.length > 0.5) {
+      linkFarming += 0.3;
+    }
+
+    return {
+      spam: Math.min(1, spam),
+      toxicity: Math.min(1, toxicity),
+      link_farming: Math.min(1, linkFarming),
+    };
+  }
+}
+
+/**
+ * 统计文本中出现的关键词个数
+ */
+function countKeywords(text: string, keywords: string[]): number {
+  return keywords.filter(keyword => text.includes(keyword)).length;
+}
+
+/**
+ * 提取链接的域名（去掉 www. 前缀），无效链接返回 null
+ */
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 评分保留两位小数
+ */
+function roundScores(scores: ModerationScores): ModerationScores {
+  return {
+    spam: Math.round(scores.spam * 100) / 100,
+    toxicity: Math.round(scores.toxicity * 100) / 100,
+    link_farming: Math.round(scores.link_farming * 100) / 100,
+  };
+}
@@ -0,0 +1,125 @@
+import { Env, Article, ArticlePassage } from '../types';
+import { DatabaseService } from './database';
+import { EmbeddingService } from './embedding';
+import { stripHtml } from '../utils';
+import { buildFtsAnyQuery, getSearchTokens } from '../utils/search-index';
+
+// 召回的候选文章数量
+const CANDIDATE_ARTICLES = 5;
+
+// 单个段落的最大长度（字符数）
+const MAX_PASSAGE_LENGTH = 800;
+
+/**
+ * 文章段落检索服务类（用于基于博客内容的问答）
+ */
+export class RetrievalService {
+  private env: Env;
+  private dbService: DatabaseService;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.dbService = new DatabaseService(env.DB);
+  }
+
+  /**
+   * 检索与问题最相关的已发布文章段落
+   */
+  async retrievePassages(question: string, limit: number = 6): Promise<ArticlePassage[]> {
+    const articles = await this.findCandidateArticles(question);
+    const tokens = Array.from(new Set(getSearchTokens(question)));
+
+    const passages = articles.flatMap((article, articleRank) =>
+      this.splitPassages(article.content).map(text => ({
+        article,
+        text,
+        // 词语命中数为主，文章召回排名为辅
+        score: this.scorePassage(text, tokens) + (CANDIDATE_ARTICLES - articleRank) * 0.1,
+      }))
+    );
+
+    return passages
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((passage, index) => ({
+        index: index + 1,
+        article_id: passage.article.id,
+        slug: passage.article.slug,
+        title: passage.article.title,
+        text: passage.text,
+      }));
+  }
+
+  /**
+   * 召回候选文章：优先使用语义检索，不可用时使用全文索引
+   */
+  private async findCandidateArticles(question: string): Promise<Article[]> {
+    try {
+      const matches = await new EmbeddingService(this.env).search(question, CANDIDATE_ARTICLES);
+      const articles = await this.dbService.getPublishedArticlesByIds(matches.map(match => match.id));
+      if (articles.length > 0) {
+        return articles;
+      }
+    } catch (error) {
+      console.warn('Semantic retrieval failed, falling back to full-text search:', error);
+    }
+
+    const matchQuery = buildFtsAnyQuery(question);
+    if (!matchQuery) {
+      return [];
+    }
+
+    const results = await this.env.DB.prepare(`
+      SELECT a.id
+      FROM articles_fts
+      JOIN articles a ON a.id = articles_fts.article_id
+      WHERE articles_fts MATCH ? AND a.status = 'published'
+      ORDER BY bm25(articles_fts)
+      LIMIT ?
+    `).bind(matchQuery, CANDIDATE_ARTICLES).all();
+
+    return this.dbService.getPublishedArticlesByIds(results.results.map((row: any) => row.id));
+  }
+
+  /**
+   * 按段落切分文章正文，过长的段落再按长度截断
+   */
+  private splitPassages(content: string): string[] {
+    const paragraphs = stripHtml(content || '')
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph.length > 0);
+
+    const passages: string[] = [];
+    let current = '';
+
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length > MAX_PASSAGE_LENGTH) {
+        passages.push(current);
+        current = '';
+      }
+
+      if (paragraph.length > MAX_PASSAGE_LENGTH) {
+        for (let i = 0; i < paragraph.length; i += MAX_PASSAGE_LENGTH) {
+          passages.push(paragraph.slice(i, i + MAX_PASSAGE_LENGTH));
+        }
+      } else {
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+      }
+    }
+
+    if (current) {
+      passages.push(current);
+    }
+
+    return passages;
+  }
+
+  /**
+   * 计算段落与问题的词语命中数
+   */
+  private scorePassage(text: string, tokens: string[]): number {
+    const lowerText = text.toLowerCase();
+    return tokens.filter(token => lowerText.includes(token)).length;
+  }
+}
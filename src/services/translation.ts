@@ -0,0 +1,120 @@
+import { Article, ApiError } from '../types';
+import { AIService } from './ai';
+import { DEFAULT_LANGUAGE } from '../utils/languages';
+
+// 单次翻译的最大长度（字符数），过长的正文按段落分批翻译
+const MAX_TRANSLATION_CHUNK = 1500;
+
+// Markdown 代码块的起止标记
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+interface ContentSegment {
+  text: string;
+  translatable: boolean;
+}
+
+/**
+ * 文章翻译服务类
+ */
+export class ArticleTranslationService {
+  private aiService: AIService;
+
+  constructor(aiService: AIService) {
+    this.aiService = aiService;
+  }
+
+  /**
+   * 翻译文章的标题、摘要和正文（代码块保持原样）
+   */
+  async translateArticle(
+    article: Pick<Article, 'title' | 'excerpt' | 'content' | 'language'>,
+    targetLanguage: string
+  ): Promise<{ title: string; excerpt?: string; content: string }> {
+    const sourceLanguage = article.language || DEFAULT_LANGUAGE;
+
+    const title = await this.translate(article.title, targetLanguage, sourceLanguage);
+    const excerpt = article.excerpt
+      ? await this.translate(article.excerpt, targetLanguage, sourceLanguage)
+      : undefined;
+
+    const segments: string[] = [];
+    for (const segment of this.splitContent(article.content)) {
+      segments.push(segment.translatable
+        ? await this.translate(segment.text, targetLanguage, sourceLanguage)
+        : segment.text);
+    }
+
+    return { title, excerpt, content: segments.join('\n\n') };
+  }
+
+  /**
+   * 翻译一段文本，翻译失败时报错而不是保存原文
+   */
+  private async translate(text: string, targetLanguage: string, sourceLanguage: string): Promise<string> {
+    let failed = false;
+    const translated = await this.aiService.translateText(text, targetLanguage, {
+      onFallback: () => {
+        failed = true;
+      },
+    }, sourceLanguage);
+
+    if (failed || !translated.trim()) {
+      throw new ApiError('Translation failed', 502);
+    }
+
+    return translated.trim();
+  }
+
+  /**
+   * 按空行切分 Markdown 正文，代码块单独成段且不翻译，相邻的短段落合并后一起翻译
+   */
+  private splitContent(content: string): ContentSegment[] {
+    const blocks: ContentSegment[] = [];
+    let current: string[] = [];
+    let inCodeBlock = false;
+
+    const flush = (translatable: boolean) => {
+      const text = current.join('\n').trim();
+      if (text) {
+        blocks.push({ text, translatable });
+      }
+      current = [];
+    };
+
+    for (const line of content.split('\n')) {
+      if (CODE_FENCE_PATTERN.test(line)) {
+        if (!inCodeBlock) {
+          flush(true);
+          current.push(line);
+          inCodeBlock = true;
+        } else {
+          current.push(line);
+          flush(false);
+          inCodeBlock = false;
+        }
+      } else if (!inCodeBlock && !line.trim()) {
+        flush(true);
+      } else {
+        current.push(line);
+      }
+    }
+    // 未闭合的代码块同样保持原样
+    flush(!inCodeBlock);
+
+    // 合并相邻的可翻译段落，减少调用次数
+    const segments: ContentSegment[] = [];
+    for (const block of blocks) {
+      const previous = segments[segments.length - 1];
+      if (
+        previous && previous.translatable && block.translatable
+        && previous.text.length + block.text.length + 2 <= MAX_TRANSLATION_CHUNK
+      ) {
+        previous.text = `${previous.text}\n\n${block.text}`;
+      } else {
+        segments.push({ ...block });
+      }
+    }
+
+    return segments;
+  }
+}
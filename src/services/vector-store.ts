@@ -0,0 +1,118 @@
+import { Env } from '../types';
+
+// 向量检索结果
+export interface VectorMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * 向量索引接口
+ * 线上使用 Cloudflare Vectorize，本地开发和测试使用内存实现
+ */
+export interface VectorStore {
+  upsert(id: string, values: number[], metadata?: Record<string, any>): Promise<void>;
+  getById(id: string): Promise<number[] | null>;
+  query(values: number[], topK: number): Promise<VectorMatch[]>;
+  delete(ids: string[]): Promise<void>;
+}
+
+/**
+ * Cloudflare Vectorize 向量索引
+ */
+export class VectorizeStore implements VectorStore {
+  private index: any;
+
+  constructor(index: any) {
+    this.index = index;
+  }
+
+  async upsert(id: string, values: number[], metadata: Record<string, any> = {}): Promise<void> {
+    await this.index.upsert([{ id, values, metadata }]);
+  }
+
+  async getById(id: string): Promise<number[] | null> {
+    const vectors = await this.index.getByIds([id]);
+    return vectors?.[0]?.values ? Array.from(vectors[0].values as number[]) : null;
+  }
+
+  async query(values: number[], topK: number): Promise<VectorMatch[]> {
+    const result = await this.index.query(values, { topK });
+    return (result?.matches || []).map((match: any) => ({
+      id: match.id,
+      score: match.score,
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await this.index.deleteByIds(ids);
+    }
+  }
+}
+
+/**
+ * 内存向量索引（余弦相似度，数据只在当前实例内有效）
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private vectors = new Map<string, number[]>();
+
+  async upsert(id: string, values: number[]): Promise<void> {
+    this.vectors.set(id, values);
+  }
+
+  async getById(id: string): Promise<number[] | null> {
+    return this.vectors.get(id) || null;
+  }
+
+  async query(values: number[], topK: number): Promise<VectorMatch[]> {
+    return Array.from(this.vectors.entries())
+      .map(([id, vector]) => ({ id, score: cosineSimilarity(values, vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.vectors.delete(id);
+    }
+  }
+}
+
+// 本地开发和测试共用的内存索引
+const localVectorStore = new InMemoryVectorStore();
+
+/**
+ * 根据环境创建向量索引
+ * 内存索引的数据只在当前实例内有效，只有显式配置 VECTOR_STORE=memory 或使用 fake AI 提供方时才使用；
+ * 否则未绑定 Vectorize 时返回 null，语义检索不可用
+ */
+export function createVectorStore(env: Env): VectorStore | null {
+  if (env.VECTORIZE) {
+    return new VectorizeStore(env.VECTORIZE);
+  }
+
+  if (env.VECTOR_STORE === 'memory' || env.AI_PROVIDER === 'fake') {
+    return localVectorStore;
+  }
+
+  return null;
+}
+
+/**
+ * 计算余弦相似度
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
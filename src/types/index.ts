@@ -28,6 +28,17 @@ export interface Env {
   // 速率限制配置
   RATE_LIMIT_REQUESTS_PER_MINUTE?: string;
 
+  // AI 提供方配置（也可在 settings 表中通过 ai_provider、ai_model_<task> 覆盖）
+  AI_PROVIDER?: string; // workers-ai | openai | fake
+  AI_BASE_URL?: string; // OpenAI 兼容接口地址，如 https://api.openai.com/v1
+  AI_API_KEY?: string; // 通过 wrangler secret 设置
+  AI_MODEL_SUMMARY?: string;
+  AI_MODEL_SENTIMENT?: string;
+  AI_MODEL_TRANSLATION?: string;
+  AI_MODEL_CHAT?: string;
+  AI_MODEL_EMBEDDING?: string;
+  AI_MODEL_VISION?: string;
+
   // 日志配置
   LOG_LEVEL?: string;
   ENABLE_ANALYTICS?: string;
@@ -42,7 +53,9 @@ export interface Env {
   SESSIONS: WorkersKVNamespace;
   RATE_LIMIT_KV?: WorkersKVNamespace;
   SESSION_KV?: WorkersKVNamespace;
-  AI: WorkersAi;
+  AI?: WorkersAi; // 未绑定时需要配置其他 AI 提供方
+  VECTORIZE?: any; // 文章向量索引，未绑定时语义检索不可用
+  VECTOR_STORE?: string; // 设为 memory 时在未绑定 Vectorize 的环境中使用内存索引（本地开发和测试）
   ANALYTICS?: any;
 }
 
@@ -62,6 +75,8 @@ export interface User {
   updated_at: string;
   last_login_at?: string;
   is_active: boolean;
+  ai_daily_quota?: number | null; // 每日 AI 调用配额，为空时使用角色默认配额
+  can_publish?: boolean | null; // 能否直接发布文章，为空时按 publish_min_role 设置判断
 }
 
 // 文章类型
@@ -70,18 +85,181 @@ export interface Article {
   title: string;
   slug: string;
   content: string;
+  content_html?: string; // 渲染后的 HTML，只在单篇文章的响应中返回
   excerpt?: string;
   summary?: string;
   cover_image?: string;
-  status: 'draft' | 'published' | 'archived';
+  status: 'draft' | 'in_review' | 'scheduled' | 'published' | 'archived';
   category: string;
   tags: string[]; // 存储时转换为 JSON 字符串
-  author_id: string;
+  author_id: string; // 创建者
+  authors?: ArticleAuthor[]; // 按署名顺序排列的全部作者
   published_at?: string;
   created_at: string;
   updated_at: string;
   view_count: number;
   like_count: number;
+  language?: string; // 文章原文的语言，默认为 zh
+  meta_title?: string;
+  meta_description?: string;
+  meta_keywords?: string[]; // 存储时转换为 JSON 字符串
+  og_title?: string; // Open Graph 分享标题
+  og_description?: string; // Open Graph 分享描述
+  toc?: TocEntry[]; // 保存时根据正文标题生成的目录
+  word_count?: number; // 字数（中日韩文字按字计算）
+  reading_time?: number; // 预计阅读时间（分钟）
+  series?: ArticleSeriesNavigation | null; // 所属系列及前后篇，只在单篇文章的响应中返回
+  reactions?: Record<string, number>; // 各表情回应的数量
+}
+
+// 文章作者的署名角色
+export type ArticleAuthorRole = 'author' | 'editor' | 'translator';
+
+// 文章作者
+export interface ArticleAuthor {
+  user_id: string;
+  role: ArticleAuthorRole;
+  position: number;
+  name: string;
+  username: string;
+  avatar_url?: string;
+  website?: string;
+}
+
+// 文章目录条目
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string; // 与渲染后 HTML 中标题的 id 一致
+  children: TocEntry[];
+}
+
+// 正文统计信息
+export interface ContentStats {
+  toc: TocEntry[];
+  word_count: number;
+  reading_time: number;
+}
+
+// 文章系列类型
+export interface Series {
+  id: string;
+  title: string;
+  slug: string;
+  description?: string;
+  cover_image?: string;
+  created_at: string;
+  updated_at: string;
+  created_by?: string;
+}
+
+// 系列中的文章链接
+export interface SeriesArticleLink {
+  id: string;
+  title: string;
+  slug: string;
+}
+
+// 文章在系列中的位置及前后篇
+export interface ArticleSeriesNavigation {
+  id: string;
+  title: string;
+  slug: string;
+  position: number; // 从 1 开始
+  total: number;
+  previous: SeriesArticleLink | null;
+  next: SeriesArticleLink | null;
+}
+
+// 文章和页面的 SEO 元数据
+export interface SeoMetadata {
+  meta_title: string;
+  meta_description: string;
+  meta_keywords: string[];
+  og_title: string;
+  og_description: string;
+}
+
+// 文章翻译类型
+export interface ArticleTranslation {
+  id: string;
+  article_id: string;
+  language: string;
+  title: string;
+  excerpt?: string;
+  content: string;
+  status: 'draft' | 'published';
+  source: 'ai' | 'manual'; // 机器翻译或人工编辑
+  source_updated_at?: string; // 翻译时原文的更新时间
+  source_hash?: string; // 翻译时原文标题、摘要和正文的哈希
+  toc?: TocEntry[];
+  word_count?: number;
+  reading_time?: number;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// 文章状态变更记录
+export interface ArticleStatusTransition {
+  id: string;
+  article_id: string;
+  from_status: Article['status'] | null; // 新建文章时为空
+  to_status: Article['status'];
+  comment?: string; // 审核意见
+  created_by?: string; // 定时发布等系统操作为空
+  created_at: string;
+}
+
+// Slug 重定向（旧 slug 指向改名后的记录）
+export type SlugRedirectEntityType = 'article' | 'page' | 'category' | 'tag';
+
+export interface SlugRedirect {
+  id: string;
+  entity_type: SlugRedirectEntityType;
+  old_slug: string;
+  entity_id: string;
+  target_slug?: string; // 记录当前的 slug，记录已删除时为空
+  created_by?: string;
+  created_at: string;
+}
+
+// 文章预览链接（用于把未发布的文章分享给未登录的审阅者）
+export interface ArticlePreviewLink {
+  id: string; // 同时是预览 Token 的 jti
+  article_id: string;
+  created_by: string;
+  expires_at: string;
+  revoked_at?: string;
+  created_at: string;
+}
+
+// 文章修订类型
+export interface ArticleRevision {
+  id: string;
+  article_id: string;
+  revision_number: number;
+  title: string;
+  slug: string;
+  content: string;
+  excerpt?: string;
+  category?: string;
+  tags: string[]; // 存储时转换为 JSON 字符串
+  status?: string;
+  cover_image?: string;
+  changed_fields: string[]; // 存储时转换为 JSON 字符串
+  restored_from?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+// 问答检索到的文章段落
+export interface ArticlePassage {
+  index: number; // 引用编号，从 1 开始
+  article_id: string;
+  slug: string;
+  title: string;
+  text: string;
 }
 
 // 文件类型
@@ -100,6 +278,13 @@ export interface FileRecord {
   metadata?: Record<string, any>; // 存储时转换为 JSON 字符串
 }
 
+// AI 生成的图片描述，language 为描述实际使用的语言（翻译失败时为英文）
+export interface ImageDescription {
+  alt_text: string;
+  caption: string;
+  language: string;
+}
+
 // 友情链接类型
 export interface FriendLink {
   id: string;
@@ -113,6 +298,43 @@ export interface FriendLink {
   created_at: string;
   updated_at: string;
   created_by?: string;
+  moderation?: ModerationResult | null;
+}
+
+// 用户提交内容的审核评分（0-1，越高越可疑）
+export interface ModerationScores {
+  spam: number;
+  toxicity: number;
+  link_farming: number;
+}
+
+// 审核结果，flagged 为达到自动拒绝阈值的评分项
+export interface ModerationResult {
+  scores: ModerationScores;
+  source: 'ai' | 'heuristic';
+  flagged: (keyof ModerationScores)[];
+  checked_at: string;
+}
+
+// 评论类型
+export interface Comment {
+  id: string;
+  article_id: string;
+  parent_id?: string;
+  author_id?: string;
+  author_name: string;
+  author_email?: string;
+  author_website?: string;
+  content: string;
+  status: 'pending' | 'approved' | 'rejected' | 'spam';
+  ip_address?: string;
+  user_agent?: string;
+  created_at: string;
+  updated_at: string;
+  approved_at?: string;
+  approved_by?: string;
+  moderation?: ModerationResult | null;
+  replies?: Comment[];
 }
 
 // JWT 载荷类型
@@ -126,6 +348,15 @@ export interface JWTPayload {
   jti?: string; // JWT ID for refresh tokens
 }
 
+// 文章预览 Token 载荷，只包含文章和预览链接，不携带创建者的身份信息
+export interface PreviewTokenPayload {
+  articleId: string;
+  jti: string; // 预览链接 ID
+  type: 'preview';
+  iat: number;
+  exp: number;
+}
+
 // GitHub OAuth 响应类型
 export interface GitHubUser {
   id: number;
@@ -184,6 +415,36 @@ export interface SummaryRequest {
   language?: string;
 }
 
+// 分类或标签（用于 AI 标签建议）
+export interface TaxonomyTerm {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// AI 标签建议
+export interface TagSuggestion {
+  name: string;
+  slug: string;
+  confidence: number; // 0-1
+  existing: boolean; // 是否为已有标签
+  tag_id?: string;
+  created?: boolean; // 是否在本次请求中自动创建
+}
+
+// AI 每日配额使用情况（limit 和 remaining 为 null 表示不限制）
+export interface AIQuota {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+// AI 写作助手选项
+export interface WritingOptions {
+  tone?: string; // 语气或风格，如 professional、casual、humorous
+  language?: string; // 输出语言，如 zh、en、ja
+}
+
 // 错误类型
 export class ApiError extends Error {
   constructor(
@@ -0,0 +1,40 @@
+import { Env } from '../types';
+import { hashString } from './index';
+import { renderMarkdown } from './markdown';
+
+// 渲染器版本，修改渲染规则后递增以废弃旧缓存
+const MARKDOWN_RENDERER_VERSION = 1;
+
+// 渲染结果缓存 30 天
+const CONTENT_HTML_TTL = 30 * 24 * 3600;
+
+/**
+ * 获取 Markdown 正文渲染后的 HTML，优先读取 KV 缓存
+ * 缓存按正文内容的哈希区分（浏览计数等更新同样会改变 updated_at，不能用它判断正文是否变化）
+ */
+export async function getContentHtml(env: Env, content: string | null | undefined): Promise<string> {
+  if (!content) {
+    return '';
+  }
+
+  const key = `content_html_v${MARKDOWN_RENDERER_VERSION}_${await hashString(content)}`;
+
+  try {
+    const cached = await env.CACHE.get(key);
+    if (cached !== null) {
+      return cached;
+    }
+  } catch (error) {
+    console.warn('Content HTML cache read failed:', error);
+  }
+
+  const { html } = renderMarkdown(content);
+
+  try {
+    await env.CACHE.put(key, html, { expirationTtl: CONTENT_HTML_TTL });
+  } catch (error) {
+    console.warn('Content HTML cache write failed:', error);
+  }
+
+  return html;
+}
@@ -0,0 +1,79 @@
+import { ContentStats, TocEntry } from '../types';
+import { renderMarkdown, MarkdownHeading } from './markdown';
+
+// 阅读速度：拉丁字母等按词计算，中日韩文字按字计算
+const WORDS_PER_MINUTE = 225;
+const CJK_CHARS_PER_MINUTE = 400;
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/**
+ * 统计文本的词数：中日韩文字每个字计一个词，其他文字按空白和标点分词
+ */
+export function countWords(text: string): { words: number; cjk: number } {
+  const cjk = (text.match(CJK_PATTERN) || []).length;
+  const words = (text.replace(CJK_PATTERN, ' ').match(WORD_PATTERN) || []).length;
+
+  return { words, cjk };
+}
+
+/**
+ * 计算 Markdown 正文的目录、字数和预计阅读时间（分钟）
+ * 目录的锚点与渲染后 HTML 中标题的 id 一致
+ */
+export function computeContentStats(content: string | null | undefined): ContentStats {
+  if (!content || !content.trim()) {
+    return { toc: [], word_count: 0, reading_time: 0 };
+  }
+
+  const { html, headings } = renderMarkdown(content);
+  // 只统计读者实际看到的文字，不包括 Markdown 语法、标签和实体
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/&#?\w+;/g, ' ');
+  const { words, cjk } = countWords(text);
+  const minutes = words / WORDS_PER_MINUTE + cjk / CJK_CHARS_PER_MINUTE;
+
+  return {
+    toc: buildToc(headings),
+    word_count: words + cjk,
+    reading_time: Math.max(1, Math.ceil(minutes)),
+  };
+}
+
+/**
+ * 计算正文统计信息，返回可直接写入数据库的值（目录转为 JSON 字符串）
+ */
+export function getContentStatsFields(content: string | null | undefined): { toc: string; word_count: number; reading_time: number } {
+  const stats = computeContentStats(content);
+
+  return {
+    toc: JSON.stringify(stats.toc),
+    word_count: stats.word_count,
+    reading_time: stats.reading_time,
+  };
+}
+
+/**
+ * 将按顺序排列的标题整理为树形目录（跳级的标题挂在最近的上级标题下）
+ */
+function buildToc(headings: MarkdownHeading[]): TocEntry[] {
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  for (const heading of headings) {
+    const entry: TocEntry = { level: heading.level, text: heading.text, id: heading.id, children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(entry);
+    } else {
+      root.push(entry);
+    }
+    stack.push(entry);
+  }
+
+  return root;
+}
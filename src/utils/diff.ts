@@ -0,0 +1,131 @@
+/**
+ * 差异片段类型
+ */
+export interface DiffChunk {
+  type: 'equal' | 'added' | 'removed';
+  lines: string[];
+}
+
+// 逐行比较的最大计算量（旧行数 × 新行数），超过时整段标记为改动
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * 按行比较两段文本（基于最长公共子序列，Hirschberg 算法只占用线性内存）
+ */
+export function diffLines(oldText: string, newText: string): DiffChunk[] {
+  const oldLines = oldText ? oldText.split('\n') : [];
+  const newLines = newText ? newText.split('\n') : [];
+
+  // 去掉相同的开头和结尾，缩小需要比较的范围
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+
+  const chunks: DiffChunk[] = [];
+  const push = (type: DiffChunk['type'], line: string) => {
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === type) {
+      last.lines.push(line);
+    } else {
+      chunks.push({ type, lines: [line] });
+    }
+  };
+
+  oldLines.slice(0, start).forEach(line => push('equal', line));
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    // 改动范围过大时不再逐行比较，整体标记为删除和新增
+    oldMiddle.forEach(line => push('removed', line));
+    newMiddle.forEach(line => push('added', line));
+  } else {
+    diffRange(oldMiddle, 0, oldMiddle.length, newMiddle, 0, newMiddle.length, push);
+  }
+
+  oldLines.slice(oldEnd).forEach(line => push('equal', line));
+
+  return chunks;
+}
+
+/**
+ * 递归比较 a[aStart, aEnd) 和 b[bStart, bEnd)：在 a 的中点处找到 LCS 经过的 b 的分割点，两侧分别比较
+ */
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  push: (type: DiffChunk['type'], line: string) => void
+): void {
+  if (aStart === aEnd) {
+    for (let j = bStart; j < bEnd; j++) push('added', b[j]);
+    return;
+  }
+
+  if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) push('removed', a[i]);
+    return;
+  }
+
+  if (aEnd - aStart === 1) {
+    const match = b.indexOf(a[aStart], bStart);
+    if (match === -1 || match >= bEnd) {
+      push('removed', a[aStart]);
+      for (let j = bStart; j < bEnd; j++) push('added', b[j]);
+    } else {
+      for (let j = bStart; j < match; j++) push('added', b[j]);
+      push('equal', a[aStart]);
+      for (let j = match + 1; j < bEnd; j++) push('added', b[j]);
+    }
+    return;
+  }
+
+  const mid = (aStart + aEnd) >> 1;
+  const length = bEnd - bStart;
+
+  // forward[k]：a[aStart, mid) 与 b[bStart, bStart + k) 的 LCS 长度
+  let forward = new Uint32Array(length + 1);
+  let current = new Uint32Array(length + 1);
+  for (let i = aStart; i < mid; i++) {
+    current[0] = 0;
+    for (let k = 0; k < length; k++) {
+      current[k + 1] = a[i] === b[bStart + k] ? forward[k] + 1 : Math.max(forward[k + 1], current[k]);
+    }
+    [forward, current] = [current, forward];
+  }
+
+  // backward[k]：a[mid, aEnd) 与 b[bStart + k, bEnd) 的 LCS 长度
+  let backward = new Uint32Array(length + 1);
+  current = new Uint32Array(length + 1);
+  for (let i = aEnd - 1; i >= mid; i--) {
+    current[length] = 0;
+    for (let k = length - 1; k >= 0; k--) {
+      current[k] = a[i] === b[bStart + k] ? backward[k + 1] + 1 : Math.max(backward[k], current[k + 1]);
+    }
+    [backward, current] = [current, backward];
+  }
+
+  let split = 0;
+  let best = -1;
+  for (let k = 0; k <= length; k++) {
+    if (forward[k] + backward[k] > best) {
+      best = forward[k] + backward[k];
+      split = k;
+    }
+  }
+
+  diffRange(a, aStart, mid, b, bStart, bStart + split, push);
+  diffRange(a, mid, aEnd, b, bStart + split, bEnd, push);
+}
@@ -0,0 +1,50 @@
+import { Env } from '../types';
+
+// 缓存版本号的 KV key，版本号变化后旧缓存自然失效
+const FEED_CACHE_VERSION_KEY = 'feed_cache_version';
+
+// 默认缓存 1 小时
+const FEED_CACHE_TTL = 3600;
+
+/**
+ * 获取当前缓存版本号
+ */
+async function getFeedCacheVersion(env: Env): Promise<string> {
+  return (await env.CACHE.get(FEED_CACHE_VERSION_KEY)) || '0';
+}
+
+/**
+ * 读取缓存的 Feed / 站点地图内容
+ */
+export async function getCachedFeed(env: Env, key: string): Promise<string | null> {
+  try {
+    const version = await getFeedCacheVersion(env);
+    return await env.CACHE.get(`feed_cache_${version}_${key}`);
+  } catch (error) {
+    console.warn('Feed cache read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * 写入 Feed / 站点地图缓存
+ */
+export async function setCachedFeed(env: Env, key: string, body: string, ttl: number = FEED_CACHE_TTL): Promise<void> {
+  try {
+    const version = await getFeedCacheVersion(env);
+    await env.CACHE.put(`feed_cache_${version}_${key}`, body, { expirationTtl: ttl });
+  } catch (error) {
+    console.warn('Feed cache write failed:', error);
+  }
+}
+
+/**
+ * 使所有 RSS / 站点地图缓存失效
+ */
+export async function invalidateFeedCache(env: Env): Promise<void> {
+  try {
+    await env.CACHE.put(FEED_CACHE_VERSION_KEY, Date.now().toString());
+  } catch (error) {
+    console.warn('Feed cache invalidation failed:', error);
+  }
+}
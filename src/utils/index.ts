@@ -253,6 +253,18 @@ export function stripHtml(html: string): string {
   return html.replace(/<[^>]*>/g, '');
 }
 
+/**
+ * 转义 XML 文本和属性值
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
 /**
  * 截断文本
  */
@@ -1,4 +1,7 @@
-import { JWTPayload, User, ApiError } from '../types';
+import { JWTPayload, PreviewTokenPayload, User, ApiError } from '../types';
+
+// 预览 Token 使用派生密钥签名，不能通过登录 Token 的验证
+const PREVIEW_KEY_SUFFIX = ':article-preview';
 
 /**
  * JWT 工具类
@@ -25,12 +28,40 @@ export class JWT {
     return this.sign({ ...payload, type: 'refresh', jti }, expiresIn);
   }
 
+  /**
+   * 生成文章预览 Token
+   */
+  async signPreviewToken(
+    payload: Omit<PreviewTokenPayload, 'iat' | 'exp' | 'type'>,
+    expiresIn: number
+  ): Promise<string> {
+    return new JWT(`${this.secret}${PREVIEW_KEY_SUFFIX}`).sign({
+      articleId: payload.articleId,
+      jti: payload.jti,
+      type: 'preview',
+    }, expiresIn);
+  }
+
+  /**
+   * 验证文章预览 Token
+   */
+  async verifyPreviewToken(token: string): Promise<PreviewTokenPayload> {
+    const payload = await new JWT(`${this.secret}${PREVIEW_KEY_SUFFIX}`).verify<PreviewTokenPayload>(token);
+    if (payload.type !== 'preview' || !payload.articleId || !payload.jti) {
+      throw new ApiError('Invalid preview token', 401);
+    }
+    return payload;
+  }
+
   /**
    * 生成 JWT Token
    */
-  async sign(payload: Omit<JWTPayload, 'iat' | 'exp'>, expiresIn: number = 7 * 24 * 60 * 60): Promise<string> {
+  async sign(
+    payload: Omit<JWTPayload, 'iat' | 'exp'> | Omit<PreviewTokenPayload, 'iat' | 'exp'>,
+    expiresIn: number = 7 * 24 * 60 * 60
+  ): Promise<string> {
     const now = Math.floor(Date.now() / 1000);
-    const fullPayload: JWTPayload = {
+    const fullPayload = {
       ...payload,
       iat: now,
       exp: now + expiresIn,
@@ -74,7 +105,7 @@ export class JWT {
   /**
    * 验证 JWT Token
    */
-  async verify(token: string): Promise<JWTPayload> {
+  async verify<T extends { exp: number } = JWTPayload>(token: string): Promise<T> {
     const parts = token.split('.');
     if (parts.length !== 3) {
       throw new ApiError('Invalid token format', 401);
@@ -89,7 +120,7 @@ export class JWT {
     }
 
     // 解析载荷
-    const payload: JWTPayload = JSON.parse(this.base64UrlDecode(encodedPayload));
+    const payload: T = JSON.parse(this.base64UrlDecode(encodedPayload));
     
     // 检查过期时间
     const now = Math.floor(Date.now() / 1000);
@@ -0,0 +1,12 @@
+// 站点支持的文章语言
+export const SUPPORTED_LANGUAGES = ['zh', 'en', 'ja'];
+
+// 文章默认语言
+export const DEFAULT_LANGUAGE = 'zh';
+
+/**
+ * 检查是否为站点支持的语言
+ */
+export function isSupportedLanguage(language: unknown): language is string {
+  return typeof language === 'string' && SUPPORTED_LANGUAGES.includes(language);
+}
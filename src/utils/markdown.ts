@@ -0,0 +1,978 @@
+/**
+ * Markdown 渲染
+ * 支持标题锚点、围栏代码块（带语法高亮 class）、引用、列表（含任务列表）、表格、脚注、
+ * 行内格式和链接；内容中的原始 HTML 经过白名单过滤，链接只允许安全的协议
+ */
+
+// 标题信息，id 与渲染结果中的锚点一致
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  headings: MarkdownHeading[];
+}
+
+interface RenderState {
+  headings: MarkdownHeading[];
+  headingIds: Map<string, number>;
+  links: Map<string, { url: string; title?: string }>;
+  footnotes: Map<string, string>;
+  footnoteNumbers: Map<string, number>;
+  footnoteRefCounts: Map<string, number>;
+}
+
+// 允许保留的 HTML 标签及其属性（所有标签都允许 title 和 class）
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'name'],
+  abbr: [],
+  b: [],
+  blockquote: ['cite'],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  dd: [],
+  del: [],
+  details: ['open'],
+  div: [],
+  dl: [],
+  dt: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  hr: [],
+  i: [],
+  img: ['src', 'alt', 'width', 'height', 'loading'],
+  ins: [],
+  kbd: [],
+  li: [],
+  mark: [],
+  ol: ['start', 'type'],
+  p: [],
+  pre: [],
+  q: ['cite'],
+  s: [],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['align', 'colspan', 'rowspan'],
+  tfoot: [],
+  th: ['align', 'colspan', 'rowspan', 'scope'],
+  thead: [],
+  tr: [],
+  u: [],
+  ul: [],
+};
+
+const GLOBAL_ATTRIBUTES = ['title', 'class'];
+
+// 连同内容一起移除的标签
+const DROPPED_CONTENT_PATTERN = /<(script|style|iframe|object|embed|noscript|template|textarea|select)\b[\s\S]*?<\/\1\s*>/gi;
+
+// 链接允许的协议，不带协议的相对地址总是允许
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+const HTML_TAG_PATTERN = /<!--[\s\S]*?-->|<\/?([a-zA-Z][\w-]*)((?:\s+[^\s=\/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const HTML_ATTRIBUTE_PATTERN = /([^\s=\/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+// 块级语法
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const HR_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}>[ ]?/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_BLOCK_PATTERN = /^ {0,3}(?:<!--|<\/?[a-zA-Z][\w-]*(?:[\s>\/]|$))/;
+const LINK_DEFINITION_PATTERN = /^ {0,3}\[([^\]^][^\]]*)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+const FOOTNOTE_DEFINITION_PATTERN = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]?(.*)$/;
+
+// 行内占位符，渲染完成后替换为对应的 HTML
+const PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/g;
+
+// 脚注引用的标签（从 [^ 之后开始匹配）
+const FOOTNOTE_REF_PATTERN = /([^\]\s\[]+)\]/y;
+
+// 引用式链接标签的最大长度
+const MAX_LINK_LABEL_LENGTH = 999;
+
+// 代码高亮：通用关键字和各语言的注释写法
+const CODE_KEYWORDS = new Set([
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+  'defer', 'del', 'do', 'elif', 'else', 'enum', 'except', 'export', 'extends', 'false', 'final', 'finally', 'fn',
+  'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface',
+  'is', 'lambda', 'let', 'match', 'mut', 'namespace', 'new', 'nil', 'none', 'None', 'not', 'null', 'or', 'and',
+  'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'readonly', 'return', 'self', 'static',
+  'struct', 'super', 'switch', 'this', 'throw', 'throws', 'trait', 'true', 'True', 'False', 'try', 'type',
+  'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with', 'yield',
+]);
+const HASH_COMMENT_LANGUAGES = new Set([
+  'python', 'py', 'ruby', 'rb', 'sh', 'bash', 'shell', 'zsh', 'yaml', 'yml', 'toml', 'dockerfile', 'perl', 'r',
+  'makefile', 'powershell', 'ps1', 'conf', 'ini',
+]);
+const DASH_COMMENT_LANGUAGES = new Set(['sql', 'lua', 'haskell', 'hs']);
+const PLAIN_LANGUAGES = new Set(['', 'text', 'plain', 'plaintext', 'txt', 'markdown', 'md']);
+
+/**
+ * 将 Markdown 渲染为安全的 HTML，同时返回标题列表
+ */
+export function renderMarkdown(markdown: string): RenderedMarkdown {
+  const state: RenderState = {
+    headings: [],
+    headingIds: new Map(),
+    links: new Map(),
+    footnotes: new Map(),
+    footnoteNumbers: new Map(),
+    footnoteRefCounts: new Map(),
+  };
+
+  const lines = collectDefinitions(
+    markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').replace(/\u0000/g, '\uFFFD').split('\n'),
+    state
+  );
+
+  let html = renderBlocks(lines, state, false);
+  html += renderFootnotes(state);
+
+  return { html, headings: state.headings };
+}
+
+/**
+ * 过滤 HTML：只保留白名单中的标签和属性，其他标签去掉（保留文本），危险内容整体移除
+ */
+export function sanitizeHtml(html: string): string {
+  const cleaned = html.replace(DROPPED_CONTENT_PATTERN, '');
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of cleaned.matchAll(HTML_TAG_PATTERN)) {
+    result += escapeLooseText(cleaned.slice(lastIndex, match.index));
+    result += sanitizeTag(match[0], match[1], match[2]);
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return result + escapeLooseText(cleaned.slice(lastIndex));
+}
+
+/**
+ * 生成标题锚点（保留中日韩文字）
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '') || 'section';
+}
+
+// ==================== 块级元素 ====================
+
+/**
+ * 提取链接引用和脚注定义（代码块中的除外），返回剩余的行
+ */
+function collectDefinitions(lines: string[], state: RenderState): string[] {
+  const remaining: string[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(FENCE_PATTERN);
+
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && !fenceMatch[2]) {
+        fence = null;
+      }
+      remaining.push(line);
+      continue;
+    }
+
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      remaining.push(line);
+      continue;
+    }
+
+    const footnoteMatch = line.match(FOOTNOTE_DEFINITION_PATTERN);
+    if (footnoteMatch) {
+      // 脚注内容可以延续到后面缩进的行
+      const body = [footnoteMatch[2]];
+      while (i + 1 < lines.length && (/^ {2,}\S/.test(lines[i + 1]) || (!lines[i + 1].trim() && /^ {2,}\S/.test(lines[i + 2] || '')))) {
+        body.push(lines[++i].replace(/^ {1,4}/, ''));
+      }
+      if (!state.footnotes.has(footnoteMatch[1])) {
+        state.footnotes.set(footnoteMatch[1], body.join('\n'));
+      }
+      continue;
+    }
+
+    const linkMatch = line.match(LINK_DEFINITION_PATTERN);
+    if (linkMatch) {
+      const label = normalizeLabel(linkMatch[1]);
+      if (!state.links.has(label)) {
+        state.links.set(label, { url: linkMatch[2], title: linkMatch[3] ?? linkMatch[4] ?? linkMatch[5] });
+      }
+      continue;
+    }
+
+    remaining.push(line);
+  }
+
+  return remaining;
+}
+
+/**
+ * 渲染块级元素，tight 为 true 时段落不包裹 <p>（紧凑列表项）
+ */
+function renderBlocks(lines: string[], state: RenderState, tight: boolean): string {
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // 围栏代码块
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const fence = fenceMatch[1];
+      const indent = line.match(/^ */)![0].length;
+      const code: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const closing = lines[i].match(FENCE_PATTERN);
+        if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length && !closing[2]) {
+          i++;
+          break;
+        }
+        code.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ''));
+        i++;
+      }
+      output.push(renderCodeBlock(code.join('\n'), fenceMatch[2]));
+      continue;
+    }
+
+    // ATX 标题
+    const headingMatch = line.match(ATX_HEADING_PATTERN);
+    if (headingMatch) {
+      output.push(renderHeading(headingMatch[1].length, headingMatch[2] || '', state));
+      i++;
+      continue;
+    }
+
+    // 分隔线
+    if (HR_PATTERN.test(line)) {
+      output.push('<hr>');
+      i++;
+      continue;
+    }
+
+    // 引用
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        if (BLOCKQUOTE_PATTERN.test(lines[i])) {
+          quoted.push(lines[i].replace(BLOCKQUOTE_PATTERN, ''));
+        } else if (startsBlock(lines[i])) {
+          break;
+        } else {
+          // 段落的延续行可以省略 >
+          quoted.push(lines[i]);
+        }
+        i++;
+      }
+      output.push(`<blockquote>\n${renderBlocks(quoted, state, false)}\n</blockquote>`);
+      continue;
+    }
+
+    // 列表
+    if (LIST_ITEM_PATTERN.test(line) && !HR_PATTERN.test(line)) {
+      const list = renderList(lines, i, state);
+      output.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    // 表格
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const rows: string[] = [];
+      let j = i + 2;
+      while (j < lines.length && lines[j].trim() && lines[j].includes('|')) {
+        rows.push(lines[j]);
+        j++;
+      }
+      output.push(renderTable(line, lines[i + 1], rows, state));
+      i = j;
+      continue;
+    }
+
+    // 原始 HTML 块（到空行结束）
+    if (HTML_BLOCK_PATTERN.test(line)) {
+      const block: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        block.push(lines[i]);
+        i++;
+      }
+      const html = sanitizeHtml(block.join('\n')).trim();
+      if (html) {
+        output.push(html);
+      }
+      continue;
+    }
+
+    // 缩进代码块
+    if (/^ {4}/.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (/^ {4}/.test(lines[i]) || !lines[i].trim())) {
+        code.push(lines[i].slice(4));
+        i++;
+      }
+      while (code.length > 0 && !code[code.length - 1].trim()) {
+        code.pop();
+      }
+      output.push(renderCodeBlock(code.join('\n'), ''));
+      continue;
+    }
+
+    // 段落（包括 Setext 标题）
+    const paragraph: string[] = [line.trim()];
+    i++;
+    let setextLevel = 0;
+    while (i < lines.length && lines[i].trim()) {
+      if (/^ {0,3}=+[ \t]*$/.test(lines[i])) {
+        setextLevel = 1;
+      } else if (/^ {0,3}-+[ \t]*$/.test(lines[i])) {
+        setextLevel = 2;
+      }
+      if (setextLevel) {
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i]) || (lines[i].includes('|') && TABLE_SEPARATOR_PATTERN.test(lines[i + 1] || ''))) {
+        break;
+      }
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+
+    if (setextLevel) {
+      output.push(renderHeading(setextLevel, paragraph.join(' '), state));
+    } else {
+      // 行尾两个空格或反斜杠表示换行，trim 前先标记
+      const text = renderInline(joinParagraphLines(lines, i - paragraph.length, paragraph.length), state);
+      output.push(tight ? text : `<p>${text}</p>`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * 判断一行是否会打断段落
+ */
+function startsBlock(line: string): boolean {
+  if (FENCE_PATTERN.test(line) || ATX_HEADING_PATTERN.test(line) || HR_PATTERN.test(line)
+    || BLOCKQUOTE_PATTERN.test(line) || HTML_BLOCK_PATTERN.test(line)) {
+    return true;
+  }
+
+  // 有序列表只有从 1 开始时才打断段落，空列表项不打断段落
+  const listMatch = line.match(LIST_ITEM_PATTERN);
+  return !!listMatch && !!listMatch[4].trim() && (!/\d/.test(listMatch[2]) || parseInt(listMatch[2], 10) === 1);
+}
+
+/**
+ * 拼接段落的各行，保留硬换行标记
+ */
+function joinParagraphLines(lines: string[], start: number, count: number): string {
+  return lines
+    .slice(start, start + count)
+    .map((line, index) => {
+      const trimmed = line.trim();
+      if (index === count - 1) {
+        return trimmed;
+      }
+      return / {2,}$/.test(line) ? `${trimmed}\\` : trimmed;
+    })
+    .join('\n');
+}
+
+/**
+ * 渲染标题，同时记录锚点（重复的锚点追加序号）
+ */
+function renderHeading(level: number, text: string, state: RenderState): string {
+  const content = renderInline(text.trim(), state);
+  const plainText = decodeEntities(content.replace(/<[^>]*>/g, '')).trim();
+
+  const baseId = slugifyHeading(plainText);
+  const count = state.headingIds.get(baseId) || 0;
+  state.headingIds.set(baseId, count + 1);
+  const id = count > 0 ? `${baseId}-${count}` : baseId;
+
+  state.headings.push({ level, text: plainText, id });
+
+  const anchor = escapeAttribute(id);
+  return `<h${level} id="${anchor}">${content}<a class="heading-anchor" href="#${anchor}" aria-hidden="true">#</a></h${level}>`;
+}
+
+/**
+ * 渲染列表，返回 HTML 和列表之后的行号
+ */
+function renderList(lines: string[], start: number, state: RenderState): { html: string; next: number } {
+  const first = lines[start].match(LIST_ITEM_PATTERN)!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: string[][] = [];
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_PATTERN);
+    if (!match || /\d/.test(match[2]) !== ordered || match[2].slice(-1) !== delimiter || HR_PATTERN.test(lines[i])) {
+      break;
+    }
+
+    // 内容缩进：标记宽度加上其后的空格（超过 4 个空格时视为 1 个，多余的属于缩进代码）
+    const spacing = match[3].length > 4 || !match[4] ? 1 : match[3].length;
+    const contentIndent = match[1].length + match[2].length + spacing;
+    const item = [match[3].length > 4 ? ' '.repeat(match[3].length - 1) + match[4] : match[4]];
+    let pendingBlank = false;
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        pendingBlank = true;
+        item.push('');
+        i++;
+        continue;
+      }
+
+      const indent = line.match(/^ */)![0].length;
+      if (indent >= contentIndent) {
+        if (pendingBlank) {
+          loose = true;
+        }
+        item.push(line.slice(contentIndent));
+        pendingBlank = false;
+        i++;
+        continue;
+      }
+
+      // 没有空行分隔的普通文本是段落的延续
+      if (!pendingBlank && !startsBlock(line) && !LIST_ITEM_PATTERN.test(line)) {
+        item.push(line.trim());
+        i++;
+        continue;
+      }
+
+      break;
+    }
+
+    // 列表项之间有空行时为松散列表
+    while (item.length > 0 && !item[item.length - 1].trim()) {
+      item.pop();
+    }
+    items.push(item);
+
+    if (pendingBlank) {
+      const next = lines[i] ? lines[i].match(LIST_ITEM_PATTERN) : null;
+      if (next && /\d/.test(next[2]) === ordered && next[2].slice(-1) === delimiter) {
+        loose = true;
+      } else {
+        break;
+      }
+    }
+  }
+
+  const renderedItems = items.map(item => {
+    let taskPrefix = '';
+    const taskMatch = item[0].match(/^\[([ xX])\][ \t]+/);
+    if (taskMatch) {
+      taskPrefix = `<input type="checkbox" disabled${taskMatch[1] === ' ' ? '' : ' checked'}> `;
+      item[0] = item[0].slice(taskMatch[0].length);
+    }
+
+    const content = renderBlocks(item, state, !loose);
+    return taskMatch
+      ? `<li class="task-list-item">${taskPrefix}${content}</li>`
+      : `<li>${content}</li>`;
+  });
+
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttribute = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+
+  return {
+    html: `<${tag}${startAttribute}>\n${renderedItems.join('\n')}\n</${tag}>`,
+    next: i,
+  };
+}
+
+/**
+ * 渲染 GFM 表格
+ */
+function renderTable(header: string, separator: string, rows: string[], state: RenderState): string {
+  const alignments = splitTableRow(separator).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+  });
+
+  const renderRow = (row: string, cellTag: 'th' | 'td') => {
+    const cells = splitTableRow(row);
+    return '<tr>' + alignments.map((alignment, index) => {
+      const style = alignment ? ` style="text-align: ${alignment}"` : '';
+      return `<${cellTag}${style}>${renderInline(cells[index] || '', state)}</${cellTag}>`;
+    }).join('') + '</tr>';
+  };
+
+  const body = rows.length > 0 ? `\n<tbody>\n${rows.map(row => renderRow(row, 'td')).join('\n')}\n</tbody>` : '';
+  return `<table>\n<thead>\n${renderRow(header, 'th')}\n</thead>${body}\n</table>`;
+}
+
+/**
+ * 拆分表格行（忽略转义的竖线）
+ */
+function splitTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * 渲染代码块，language-xxx class 标明语言，关键字、字符串、数字和注释用 token class 标记
+ */
+function renderCodeBlock(code: string, info: string): string {
+  const language = info.toLowerCase().replace(/[^\w+#-]/g, '');
+  const classAttribute = language ? ` class="language-${language}"` : '';
+  return `<pre${classAttribute}><code${classAttribute}>${highlightCode(code, language)}</code></pre>`;
+}
+
+/**
+ * 通用的轻量语法高亮
+ */
+function highlightCode(code: string, language: string): string {
+  if (PLAIN_LANGUAGES.has(language)) {
+    return escapeHtml(code);
+  }
+
+  const commentPattern = HASH_COMMENT_LANGUAGES.has(language)
+    ? '#[^\\n]*'
+    : DASH_COMMENT_LANGUAGES.has(language)
+      ? '--[^\\n]*'
+      : ['html', 'xml', 'svg', 'vue'].includes(language)
+        ? '<!--[\\s\\S]*?-->'
+        : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/';
+
+  const tokenPattern = new RegExp(
+    `(${commentPattern})|("(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'|\`(?:\\\\.|[^\`\\\\])*\`)`
+      + '|\\b(\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?|0x[\\da-f]+)\\b|\\b([A-Za-z_]\\w*)\\b',
+    'gi'
+  );
+
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of code.matchAll(tokenPattern)) {
+    const [token, comment, string, number, word] = match;
+    const type = comment ? 'comment' : string ? 'string' : number ? 'number' : word && CODE_KEYWORDS.has(word) ? 'keyword' : '';
+
+    if (!type) {
+      continue;
+    }
+
+    result += escapeHtml(code.slice(lastIndex, match.index));
+    result += `<span class="token ${type}">${escapeHtml(token)}</span>`;
+    lastIndex = match.index! + token.length;
+  }
+
+  return result + escapeHtml(code.slice(lastIndex));
+}
+
+/**
+ * 渲染脚注列表（按首次引用的顺序，未被引用的脚注不输出）
+ */
+function renderFootnotes(state: RenderState): string {
+  if (state.footnoteNumbers.size === 0) {
+    return '';
+  }
+
+  const items: string[] = [];
+  // 脚注内容中可能引用新的脚注，按编号依次渲染
+  for (let number = 1; number <= state.footnoteNumbers.size; number++) {
+    const label = [...state.footnoteNumbers.entries()].find(([, value]) => value === number)![0];
+    const content = renderBlocks(state.footnotes.get(label)!.split('\n'), state, false);
+    const backref = `<a href="#fnref-${number}" class="footnote-backref" aria-label="Back to content">↩</a>`;
+
+    items.push(content.endsWith('</p>')
+      ? `<li id="fn-${number}">${content.slice(0, -4)} ${backref}</p></li>`
+      : `<li id="fn-${number}">${content} ${backref}</li>`);
+  }
+
+  return `\n<section class="footnotes">\n<hr>\n<ol>\n${items.join('\n')}\n</ol>\n</section>`;
+}
+
+// ==================== 行内元素 ====================
+
+/**
+ * 渲染行内元素：先把代码、链接、HTML 等替换为占位符，转义剩余文本后处理强调，最后还原占位符
+ * 渲染链接文本时共用外层的占位符，由外层统一还原
+ */
+function renderInline(text: string, state: RenderState, sharedPlaceholders?: string[]): string {
+  const placeholders = sharedPlaceholders || [];
+  const hold = (html: string) => `\u0000${placeholders.push(html) - 1}\u0000`;
+
+  let result = text
+    // 代码
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, ticks, code) => hold(`<code>${escapeHtml(code.replace(/\n/g, ' ').replace(/^ (.+) $/, '$1'))}</code>`))
+    // 尖括号自动链接
+    .replace(/<((?:https?|mailto):[^\s<>]+)>/gi, (_, url) => hold(renderLink(url, escapeHtml(url.replace(/^mailto:/i, '')))))
+    // 行内 HTML
+    .replace(DROPPED_CONTENT_PATTERN, '')
+    .replace(HTML_TAG_PATTERN, (tag, name, attributes) => hold(sanitizeTag(tag, name, attributes)))
+    // 硬换行
+    .replace(/\\\n/g, () => hold('<br>\n'))
+    // 转义字符
+    .replace(/\\([!-\/:-@\[-`{-~])/g, (_, char) => hold(escapeHtml(char)));
+
+  // 图片、脚注引用、行内链接和引用式链接
+  result = replaceLinks(result, state, placeholders, hold)
+    // 裸链接
+    .replace(/\bhttps?:\/\/[^\s<\u0000]*[^\s<\u0000.,:;"')\]!?]/gi, url => hold(renderLink(url, escapeHtml(url))));
+
+  result = escapeHtml(result)
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*|(?<![\p{L}\p{N}])__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}])/gu, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*|(?<![\p{L}\p{N}_])_(?=[^\s_])([\s\S]*?[^\s_])_(?![\p{L}\p{N}_])/gu, (_, a, b) => `<em>${a ?? b}</em>`)
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return sharedPlaceholders ? result : restorePlaceholders(result, placeholders);
+}
+
+/**
+ * 从左到右扫描一次，替换图片 ![替代文本](地址 "标题")、脚注引用 [^标签]、行内链接 [文本](地址 "标题")
+ * 和引用式链接 [文本][标签]、[标签][]、[标签]
+ * 方括号的配对和地址的结束位置都预先计算，未闭合的括号不会导致重复扫描；地址中允许成对的圆括号
+ */
+function replaceLinks(text: string, state: RenderState, placeholders: string[], hold: (html: string) => string): string {
+  const length = text.length;
+
+  // 每个 [ 对应的 ]（支持嵌套），未闭合时为 -1
+  const closingBracket = new Int32Array(length).fill(-1);
+  const openBrackets: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (text[i] === '[') {
+      openBrackets.push(i);
+    } else if (text[i] === ']' && openBrackets.length > 0) {
+      closingBracket[openBrackets.pop()!] = i;
+    }
+  }
+
+  // 从位置 i 开始圆括号深度第一次变为负数的位置，即地址结束处未配对的 )
+  const depths = new Int32Array(length + 1);
+  for (let i = 0; i < length; i++) {
+    depths[i + 1] = depths[i] + (text[i] === '(' ? 1 : text[i] === ')' ? -1 : 0);
+  }
+  const unmatchedParen = new Int32Array(length + 1).fill(length);
+  const lowerDepths: number[] = [];
+  for (let i = length; i >= 0; i--) {
+    while (lowerDepths.length > 0 && depths[lowerDepths[lowerDepths.length - 1]] >= depths[i]) {
+      lowerDepths.pop();
+    }
+    if (lowerDepths.length > 0) {
+      unmatchedParen[i] = lowerDepths[lowerDepths.length - 1] - 1;
+    }
+    lowerDepths.push(i);
+  }
+
+  const nextSpace = buildNextIndex(text, char => /\s/.test(char));
+  const nextNonSpace = buildNextIndex(text, char => !/\s/.test(char));
+  const nextQuote = buildNextIndex(text, char => char === '"');
+  const nextAngleEnd = buildNextIndex(text, char => char === '>' || char === '<' || /\s/.test(char));
+
+  // 解析 ( 之后的地址和可选标题，返回 ) 之后的位置
+  const parseDestination = (start: number): { url: string; title?: string; end: number } | null => {
+    let position = nextNonSpace[start];
+    let url: string;
+
+    if (text[position] === '<' && text[nextAngleEnd[position + 1]] === '>') {
+      url = text.slice(position + 1, nextAngleEnd[position + 1]);
+      position = nextAngleEnd[position + 1] + 1;
+    } else {
+      const end = Math.min(unmatchedParen[position], nextSpace[position]);
+      url = text.slice(position, end);
+      position = end;
+    }
+
+    let title: string | undefined;
+    const afterUrl = nextNonSpace[position];
+    if (afterUrl > position && text[afterUrl] === '"' && nextQuote[afterUrl + 1] < length) {
+      title = text.slice(afterUrl + 1, nextQuote[afterUrl + 1]);
+      position = nextQuote[afterUrl + 1] + 1;
+    }
+
+    position = nextNonSpace[position];
+    return text[position] === ')' ? { url, title, end: position + 1 } : null;
+  };
+
+  // 查找引用式链接的定义（标签过长时不可能有对应定义）
+  const findDefinition = (label: string) =>
+    state.links.size > 0 && label.length <= MAX_LINK_LABEL_LENGTH ? state.links.get(normalizeLabel(label)) : undefined;
+
+  let result = '';
+  let index = 0;
+
+  while (index < length) {
+    const char = text[index];
+
+    if (char === '!' && text[index + 1] === '[') {
+      const close = closingBracket[index + 1];
+      const alt = close >= 0 ? text.slice(index + 2, close) : '';
+      const destination = close >= 0 && text[close + 1] === '(' && !alt.includes('[') ? parseDestination(close + 2) : null;
+      if (destination) {
+        result += hold(renderImage(destination.url, restorePlainText(alt, placeholders), destination.title));
+        index = destination.end;
+        continue;
+      }
+    } else if (char === '[') {
+      if (text[index + 1] === '^') {
+        FOOTNOTE_REF_PATTERN.lastIndex = index + 2;
+        const match = FOOTNOTE_REF_PATTERN.exec(text);
+        if (match && state.footnotes.has(match[1])) {
+          result += hold(renderFootnoteRef(match[1], state));
+          index = FOOTNOTE_REF_PATTERN.lastIndex;
+          continue;
+        }
+      }
+
+      const close = closingBracket[index];
+      if (close >= 0) {
+        const label = text.slice(index + 1, close);
+
+        const destination = text[close + 1] === '(' ? parseDestination(close + 2) : null;
+        if (destination) {
+          result += hold(renderLink(destination.url, renderInline(label, state, placeholders), destination.title));
+          index = destination.end;
+          continue;
+        }
+
+        // [文本][标签] 和 [标签][]，标签中不能再有方括号
+        const referenceClose = text[close + 1] === '[' ? closingBracket[close + 1] : -1;
+        const reference = referenceClose >= 0 ? text.slice(close + 2, referenceClose) : '';
+        const definition = label && !reference.includes('[') ? findDefinition(reference || label) : undefined;
+        if (definition) {
+          result += hold(renderLink(definition.url, renderInline(label, state, placeholders), definition.title));
+          index = referenceClose >= 0 ? referenceClose + 1 : close + 1;
+          continue;
+        }
+      }
+    }
+
+    result += char;
+    index++;
+  }
+
+  return result;
+}
+
+/**
+ * 预先计算每个位置之后（含该位置）第一个满足条件的字符位置，没有时为文本长度
+ */
+function buildNextIndex(text: string, test: (char: string) => boolean): Int32Array {
+  const next = new Int32Array(text.length + 1).fill(text.length);
+  for (let i = text.length - 1; i >= 0; i--) {
+    next[i] = test(text[i]) ? i : next[i + 1];
+  }
+  return next;
+}
+
+/**
+ * 还原占位符（占位符可能嵌套，例如链接文本中的代码）
+ */
+function restorePlaceholders(text: string, placeholders: string[]): string {
+  let result = text;
+  while (result.includes('\u0000')) {
+    result = result.replace(PLACEHOLDER_PATTERN, (_, index) => placeholders[Number(index)]);
+  }
+  return result;
+}
+
+/**
+ * 还原占位符并去掉标签，得到纯文本（用于图片的替代文本）
+ */
+function restorePlainText(text: string, placeholders: string[]): string {
+  return decodeEntities(restorePlaceholders(text, placeholders).replace(/<[^>]*>/g, ''));
+}
+
+/**
+ * 渲染链接，不安全的地址只保留文本
+ */
+function renderLink(url: string, content: string, title?: string): string {
+  const href = sanitizeUrl(url);
+  if (href === null) {
+    return content;
+  }
+
+  const titleAttribute = title ? ` title="${escapeAttribute(title)}"` : '';
+  return `<a href="${escapeAttribute(href)}"${titleAttribute}>${content}</a>`;
+}
+
+/**
+ * 渲染图片，不安全的地址只保留替代文本
+ */
+function renderImage(url: string, alt: string, title?: string): string {
+  const src = sanitizeUrl(url);
+  if (src === null) {
+    return escapeHtml(alt);
+  }
+
+  const titleAttribute = title ? ` title="${escapeAttribute(title)}"` : '';
+  return `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(alt)}"${titleAttribute} loading="lazy">`;
+}
+
+/**
+ * 渲染脚注引用（同一脚注多次引用时只有第一次带锚点 id）
+ */
+function renderFootnoteRef(label: string, state: RenderState): string {
+  if (!state.footnoteNumbers.has(label)) {
+    state.footnoteNumbers.set(label, state.footnoteNumbers.size + 1);
+  }
+
+  const number = state.footnoteNumbers.get(label)!;
+  const count = (state.footnoteRefCounts.get(label) || 0) + 1;
+  state.footnoteRefCounts.set(label, count);
+
+  const id = count === 1 ? ` id="fnref-${number}"` : '';
+  return `<sup class="footnote-ref"><a href="#fn-${number}"${id}>${number}</a></sup>`;
+}
+
+// ==================== HTML 过滤 ====================
+
+/**
+ * 过滤单个标签：不在白名单中的标签和注释直接去掉
+ */
+function sanitizeTag(tag: string, name: string | undefined, attributes: string | undefined): string {
+  if (!name) {
+    return '';
+  }
+
+  const tagName = name.toLowerCase();
+  const allowedAttributes = ALLOWED_TAGS[tagName];
+  if (!allowedAttributes) {
+    return '';
+  }
+
+  if (tag.startsWith('</')) {
+    return `</${tagName}>`;
+  }
+
+  const kept: string[] = [];
+  for (const match of (attributes || '').matchAll(HTML_ATTRIBUTE_PATTERN)) {
+    const attribute = match[1].toLowerCase();
+    if (!allowedAttributes.includes(attribute) && !GLOBAL_ATTRIBUTES.includes(attribute)) {
+      continue;
+    }
+
+    let value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (attribute === 'href' || attribute === 'src' || attribute === 'cite') {
+      const url = sanitizeUrl(value);
+      if (url === null) {
+        continue;
+      }
+      value = url;
+    }
+
+    kept.push(`${attribute}="${escapeAttribute(value)}"`);
+  }
+
+  return `<${tagName}${kept.length > 0 ? ' ' + kept.join(' ') : ''}>`;
+}
+
+/**
+ * 检查链接地址，允许相对地址和安全协议，其他返回 null
+ */
+function sanitizeUrl(url: string): string | null {
+  // 去掉控制字符和空白，防止 java\tscript: 之类的绕过
+  const trimmed = url.replace(/[\u0000- \u007f]/g, '');
+  const protocol = trimmed.match(/^([a-z][a-z\d+.-]*):/i);
+
+  if (protocol && !SAFE_URL_PROTOCOLS.includes(protocol[1].toLowerCase() + ':')) {
+    return null;
+  }
+
+  return trimmed;
+}
+
+/**
+ * 转义标签之外的文本（保留已有的实体）
+ */
+function escapeLooseText(text: string): string {
+  return text
+    .replace(/&(?!#?\w+;)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * 转义 HTML 文本
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/'/g, '&#39;');
+}
+
+/**
+ * 解码常见的 HTML 实体
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => decodeCodePoint(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_, code) => decodeCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 解码数字实体，超出 Unicode 范围、代理项和 0 替换为 U+FFFD
+ */
+function decodeCodePoint(code: number): string {
+  if (!(code > 0 && code <= 0x10ffff) || (code >= 0xd800 && code <= 0xdfff)) {
+    return '\ufffd';
+  }
+  return String.fromCodePoint(code);
+}
+
+/**
+ * 规范化链接引用的标签（忽略大小写和多余空白）
+ */
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
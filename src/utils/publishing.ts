@@ -0,0 +1,31 @@
+import { Env, User } from '../types';
+import { hasPermission } from './jwt';
+
+// 未配置时只有管理员可以直接发布文章
+const DEFAULT_PUBLISH_MIN_ROLE = 'admin';
+
+/**
+ * 判断用户能否直接发布文章和审核他人的投稿
+ * 管理员始终可以发布；其他用户单独设置的 can_publish 优先，未设置时按 settings 表的 publish_min_role 判断
+ */
+export async function canPublishArticles(env: Env, user: Pick<User, 'role' | 'can_publish'>): Promise<boolean> {
+  if (hasPermission(user.role, 'admin')) {
+    return true;
+  }
+
+  if (user.can_publish !== undefined && user.can_publish !== null) {
+    return user.can_publish;
+  }
+
+  let minRole = DEFAULT_PUBLISH_MIN_ROLE;
+  try {
+    const setting = await env.DB.prepare('SELECT value FROM settings WHERE key = ?').bind('publish_min_role').first();
+    if (setting?.value) {
+      minRole = setting.value;
+    }
+  } catch (error) {
+    console.warn('Failed to load publish_min_role:', error);
+  }
+
+  return hasPermission(user.role, minRole);
+}
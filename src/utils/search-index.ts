@@ -0,0 +1,144 @@
+import { stripHtml } from './index';
+import { escapeHtml } from './markdown';
+
+// 搜索结果中高亮匹配词使用的标签
+export const SEARCH_HIGHLIGHT_OPEN = '<mark>';
+export const SEARCH_HIGHLIGHT_CLOSE = '</mark>';
+
+// bm25 各列权重，顺序与 articles_fts 的列一致（article_id, title, excerpt, content）
+export const SEARCH_BM25_WEIGHTS = '0.0, 10.0, 5.0, 1.0';
+
+// 中日韩文字（汉字、假名、谚文）连续片段
+const CJK_RUN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]+/g;
+
+// 摘要片段默认长度（字符数）
+const SNIPPET_LENGTH = 120;
+
+/**
+ * 对中日韩文字做二元切分，拉丁文字保持原样
+ * sqlite 默认分词器会把整句中文当作一个词，切分为重叠的双字词后
+ * 部分词语（如「搜索」匹配「全文搜索引擎」）也能命中
+ */
+export function segmentCjk(text: string): string {
+  return text
+    .replace(CJK_RUN_PATTERN, run => ` ${toBigrams(run).join(' ')} `)
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+/**
+ * 拆分用户输入的搜索词
+ */
+export function getSearchTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(term => term.length > 0);
+}
+
+/**
+ * 将用户输入转换为安全的 FTS5 MATCH 表达式
+ * 每个词都作为短语加引号，避免引号、括号和 AND/OR/NOT 等被当作查询语法；
+ * 中文词切分后的双字词在短语中必须连续出现；
+ * 最后一个词和单字词使用前缀匹配，方便边输入边搜索，也让单个汉字能匹配双字词
+ */
+export function buildFtsQuery(query: string): string {
+  const terms = getSearchTerms(query).map(term => segmentCjk(term));
+
+  return terms
+    .map((term, index) => {
+      const isPrefix = index === terms.length - 1 || Array.from(term).length === 1;
+      return `"${term}"${isPrefix ? ' *' : ''}`;
+    })
+    .join(' ');
+}
+
+/**
+ * 将文本切分为检索用的词（中文为双字词，拉丁文字为单词，去掉标点）
+ */
+export function getSearchTokens(text: string): string[] {
+  return segmentCjk(text.toLowerCase())
+    .split(/\s+/)
+    .map(token => token.replace(/"/g, ''))
+    .filter(token => /[\p{L}\p{N}]/u.test(token));
+}
+
+/**
+ * 构建匹配任意一个词的 FTS5 MATCH 表达式，用于自然语言问题的召回
+ */
+export function buildFtsAnyQuery(text: string): string {
+  return Array.from(new Set(getSearchTokens(text)))
+    .map(token => `"${token}"`)
+    .join(' OR ');
+}
+
+/**
+ * 高亮文本中的搜索词，返回 HTML：原文先转义，只有高亮标签是 HTML
+ */
+export function highlightTerms(text: string, terms: string[]): string {
+  if (!text) {
+    return text;
+  }
+
+  const pattern = buildTermsPattern(terms);
+  if (!pattern) {
+    return escapeHtml(text);
+  }
+
+  let result = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    result += escapeHtml(text.slice(lastIndex, match.index));
+    result += `${SEARCH_HIGHLIGHT_OPEN}${escapeHtml(match[0])}${SEARCH_HIGHLIGHT_CLOSE}`;
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return result + escapeHtml(text.slice(lastIndex));
+}
+
+/**
+ * 截取包含第一个搜索词的正文片段并高亮（返回转义后的 HTML）
+ * 索引中保存的是切分后的文本，因此片段从原文生成
+ */
+export function buildSnippet(content: string, terms: string[], length: number = SNIPPET_LENGTH): string {
+  const text = stripHtml(content || '').replace(/\s+/g, ' ').trim();
+  const pattern = buildTermsPattern(terms);
+  const matchIndex = pattern ? text.search(pattern) : -1;
+
+  const start = matchIndex > length / 3 ? matchIndex - Math.floor(length / 3) : 0;
+  const end = Math.min(text.length, start + length);
+
+  const snippet = text.slice(start, end);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < text.length ? '...' : '';
+
+  return `${prefix}${highlightTerms(snippet, terms)}${suffix}`;
+}
+
+/**
+ * 将连续的中日韩文字切分为重叠的双字词
+ */
+function toBigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length < 2) {
+    return chars;
+  }
+
+  const bigrams: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    bigrams.push(chars[i] + chars[i + 1]);
+  }
+  return bigrams;
+}
+
+/**
+ * 构建匹配任意搜索词的正则（忽略大小写，长词优先）
+ */
+function buildTermsPattern(terms: string[]): RegExp | null {
+  const escaped = [...terms]
+    .filter(term => term.length > 0)
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  return escaped.length > 0 ? new RegExp(escaped.join('|'), 'gi') : null;
+}
@@ -0,0 +1,79 @@
+import { ApiError } from '../types';
+
+// 文章和页面的 SEO 字段
+export const SEO_FIELDS = ['meta_title', 'meta_description', 'meta_keywords', 'og_title', 'og_description'];
+
+// AI 建议的 SEO 文本长度上限（超出部分会被搜索引擎和社交平台截断）
+export const SEO_TEXT_LIMITS: Record<string, number> = {
+  meta_title: 60,
+  meta_description: 160,
+  og_title: 90,
+  og_description: 200,
+};
+
+// AI 建议的关键词数量
+export const SUGGESTED_SEO_KEYWORDS = 8;
+
+// 关键词数量上限
+const MAX_SEO_KEYWORDS = 20;
+
+// 手动填写的 SEO 文本长度上限
+const MAX_SEO_TEXT_LENGTH = 500;
+
+/**
+ * 校验请求中的 SEO 字段，返回可直接写入数据库的值（关键词转为 JSON 字符串）
+ * 只包含请求中出现的字段，空字符串视为清空
+ */
+export function parseSeoFields(data: Record<string, any>): Record<string, string | null> {
+  const fields: Record<string, string | null> = {};
+
+  for (const field of SEO_FIELDS) {
+    const value = data[field];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (field === 'meta_keywords') {
+      fields[field] = JSON.stringify(normalizeKeywords(value));
+      continue;
+    }
+
+    if (value !== null && typeof value !== 'string') {
+      throw new ApiError(`Invalid ${field}`, 400);
+    }
+
+    if (value && value.length > MAX_SEO_TEXT_LENGTH) {
+      throw new ApiError(`${field} must be at most ${MAX_SEO_TEXT_LENGTH} characters`, 400);
+    }
+
+    fields[field] = value ? value.trim() : null;
+  }
+
+  return fields;
+}
+
+/**
+ * 整理关键词：去除空白和重复项（不区分大小写）
+ */
+export function normalizeKeywords(value: unknown): string[] {
+  if (value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.some(keyword => typeof keyword !== 'string')) {
+    throw new ApiError('meta_keywords must be an array of strings', 400);
+  }
+
+  const keywords: string[] = [];
+  for (const keyword of value.map((item: string) => item.trim()).filter(Boolean)) {
+    if (!keywords.some(existing => existing.toLowerCase() === keyword.toLowerCase())) {
+      keywords.push(keyword);
+    }
+  }
+
+  if (keywords.length > MAX_SEO_KEYWORDS) {
+    throw new ApiError(`At most ${MAX_SEO_KEYWORDS} keywords are allowed`, 400);
+  }
+
+  return keywords;
+}
@@ -0,0 +1,44 @@
+import { Env, ApiResponse, SlugRedirectEntityType } from '../types';
+import { DatabaseService } from '../services/database';
+
+// 支持 slug 重定向的记录类型
+export const SLUG_REDIRECT_ENTITY_TYPES: SlugRedirectEntityType[] = ['article', 'page', 'category', 'tag'];
+
+/**
+ * 按 slug 查找记录失败时，检查是否为改名前的旧 slug
+ * 是则返回 301 响应，Location 指向当前 slug 的同一接口（保留查询参数），响应体中包含当前 slug
+ * 传入 canView 时，只有当前用户能查看目标记录才重定向，避免泄露未公开记录的 slug
+ */
+export async function getSlugRedirectResponse(
+  request: Request,
+  env: Env,
+  entityType: SlugRedirectEntityType,
+  slug: string,
+  canView?: (targetSlug: string) => Promise<boolean>
+): Promise<Response | null> {
+  const targetSlug = await new DatabaseService(env.DB).getSlugRedirectTarget(entityType, slug);
+  if (!targetSlug || targetSlug === slug) {
+    return null;
+  }
+
+  if (canView && !await canView(targetSlug)) {
+    return null;
+  }
+
+  const url = new URL(request.url);
+  url.pathname = `${url.pathname.slice(0, url.pathname.length - slug.length)}${targetSlug}`;
+
+  const response: ApiResponse<{ slug: string; location: string }> = {
+    success: true,
+    data: { slug: targetSlug, location: url.toString() },
+    message: 'Moved permanently',
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 301,
+    headers: {
+      'Content-Type': 'application/json',
+      'Location': url.toString(),
+    },
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Server-Sent Events 写入器
+ */
+export interface SSEWriter {
+  send(event: string, data: any): Promise<void>;
+}
+
+/**
+ * 创建 SSE 响应
+ * handler 在后台执行并逐条写入事件，执行结束后自动关闭连接；
+ * handler 抛出的异常会作为 error 事件发送给客户端
+ */
+export function createSSEResponse(ctx: any, handler: (writer: SSEWriter) => Promise<void>): Response {
+  const { readable, writable } = new TransformStream();
+  const streamWriter = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  const writer: SSEWriter = {
+    async send(event: string, data: any) {
+      await streamWriter.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    },
+  };
+
+  ctx.waitUntil(
+    handler(writer)
+      .catch(async error => {
+        console.error('SSE handler error:', error);
+        await writer.send('error', {
+          message: error instanceof Error ? error.message : 'Stream failed',
+          statusCode: error?.statusCode || 500,
+        }).catch(() => {});
+      })
+      .finally(() => streamWriter.close().catch(() => {}))
+  );
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+/**
+ * 解析上游 SSE 流中的 data 行（忽略 [DONE] 结束标记）
+ */
+export async function* readSSEData(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) {
+        const data = trimmed.slice(5).trim();
+        if (data && data !== '[DONE]') {
+          yield data;
+        }
+      }
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith('data:') && rest.slice(5).trim() !== '[DONE]') {
+    yield rest.slice(5).trim();
+  }
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Env } from '../src/types';
+import { DEFAULT_AI_MODELS, FakeAIProvider, OpenAICompatibleProvider, resolveAIProvider } from '../src/services/ai-providers';
+import { createTestEnv } from './env';
+
+function cosine(a: number[], b: number[]): number {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+describe('FakeAIProvider', () => {
+  const image = new Uint8Array([1, 2, 3, 4]);
+
+  it('returns the same output for the same input', async () => {
+    const first = new FakeAIProvider();
+    const second = new FakeAIProvider();
+
+    expect(await first.summarize('m', 'Some  text\nto summarize', { maxLength: 50, language: 'en' }))
+      .toBe(await second.summarize('m', 'Some  text\nto summarize', { maxLength: 50, language: 'en' }));
+    expect(await first.translate('m', 'hello', 'en', 'zh')).toBe(await second.translate('m', 'hello', 'en', 'zh'));
+    expect(await first.chat('m', [{ role: 'user', content: 'hi' }]))
+      .toBe(await second.chat('m', [{ role: 'user', content: 'hi' }]));
+    expect(await first.embed('m', ['rust borrow checker'])).toEqual(await second.embed('m', ['rust borrow checker']));
+    expect(await first.describeImage('m', image, { mimeType: 'image/png', prompt: 'describe' }))
+      .toBe(await second.describeImage('m', image, { mimeType: 'image/png', prompt: 'describe' }));
+  });
+
+  it('streams the same text it returns', async () => {
+    const provider = new FakeAIProvider();
+    const tokens: string[] = [];
+
+    const summary = await provider.summarize('m', 'one two three four', {
+      maxLength: 100,
+      language: 'en',
+      onToken: token => { tokens.push(token); },
+    });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(summary);
+
+    const streamed: string[] = [];
+    for await (const token of provider.streamChat('m', [{ role: 'user', content: 'one two three' }])) {
+      streamed.push(token);
+    }
+    expect(streamed.join('')).toBe(await provider.chat('m', [{ role: 'user', content: 'one two three' }]));
+  });
+
+  it('embeds texts that share words closer together', async () => {
+    const [query, near, far] = await new FakeAIProvider().embed('m', [
+      'rust borrow checker',
+      'the rust borrow checker explained',
+      'css grid layout',
+    ]);
+
+    expect(cosine(query, near)).toBeGreaterThan(cosine(query, far));
+  });
+
+  it('describes different images differently', async () => {
+    const provider = new FakeAIProvider();
+
+    expect(await provider.describeImage('m', image, { mimeType: 'image/png', prompt: 'describe' }))
+      .not.toBe(await provider.describeImage('m', new Uint8Array([4, 3, 2, 1]), { mimeType: 'image/png', prompt: 'describe' }));
+  });
+});
+
+describe('resolveAIProvider', () => {
+  let env: Env;
+  let dispose: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ env, dispose } = await createTestEnv(['users', 'settings']));
+  });
+
+  afterEach(async () => {
+    await dispose();
+  });
+
+  async function setSetting(key: string, value: string): Promise<void> {
+    await env.DB.prepare('INSERT INTO settings (key, value) VALUES (?, ?)').bind(key, value).run();
+  }
+
+  it('uses the default models of the configured provider', async () => {
+    const { provider, models } = await resolveAIProvider({ ...env, AI_PROVIDER: 'fake' });
+
+    expect(provider).toBeInstanceOf(FakeAIProvider);
+    expect(models).toEqual(DEFAULT_AI_MODELS.fake);
+  });
+
+  it('overrides models from environment variables', async () => {
+    const { models } = await resolveAIProvider({ ...env, AI_PROVIDER: 'fake', AI_MODEL_CHAT: 'env-chat' });
+
+    expect(models.chat).toBe('env-chat');
+    expect(models.summary).toBe(DEFAULT_AI_MODELS.fake.summary);
+  });
+
+  it('prefers models from settings over environment variables', async () => {
+    await setSetting('ai_model_chat', 'settings-chat');
+    await setSetting('ai_model_embedding', '');
+
+    const { models } = await resolveAIProvider({
+      ...env,
+      AI_PROVIDER: 'fake',
+      AI_MODEL_CHAT: 'env-chat',
+      AI_MODEL_EMBEDDING: 'env-embedding',
+    });
+
+    expect(models.chat).toBe('settings-chat');
+    expect(models.embedding).toBe('env-embedding');
+  });
+
+  it('prefers the provider from settings over the environment', async () => {
+    await setSetting('ai_provider', 'fake');
+
+    const { provider } = await resolveAIProvider({ ...env, AI_PROVIDER: 'openai' });
+
+    expect(provider).toBeInstanceOf(FakeAIProvider);
+  });
+
+  it('falls back to an OpenAI-compatible provider when only AI_BASE_URL is set', async () => {
+    const { provider, models } = await resolveAIProvider({ ...env, AI_BASE_URL: 'http://localhost:11434/v1' });
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(models).toEqual(DEFAULT_AI_MODELS.openai);
+  });
+
+  it('rejects providers that are not configured', async () => {
+    await expect(resolveAIProvider(env)).rejects.toMatchObject({ statusCode: 503 });
+    await expect(resolveAIProvider({ ...env, AI_PROVIDER: 'openai' })).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Article, Env, User } from '../src/types';
+import { DatabaseService } from '../src/services/database';
+import { updateArticle } from '../src/routes/articles';
+import { createTestEnv, createTestUser } from './env';
+
+describe('article revisions', () => {
+  let env: Env;
+  let dispose: () => Promise<void>;
+  let admin: User;
+  let dbService: DatabaseService;
+  let article: Article;
+
+  const ctx = { waitUntil: () => {} };
+
+  beforeEach(async () => {
+    ({ env, dispose } = await createTestEnv([
+      'users', 'settings', 'articles', 'article_authors', 'article_revisions',
+      'article_status_transitions', 'article_tags', 'articles_fts', 'slug_redirects',
+    ]));
+    admin = await createTestUser(env, 'admin');
+    dbService = new DatabaseService(env.DB);
+    article = await dbService.createArticle({
+      title: 'Revised',
+      slug: 'revised',
+      content: 'first version',
+      excerpt: '',
+      summary: '',
+      cover_image: '',
+      status: 'published',
+      category: 'uncategorized',
+      tags: [],
+      author_id: admin.id,
+      published_at: new Date().toISOString(),
+      view_count: 0,
+      like_count: 0,
+    });
+    await dbService.createArticleRevision(article, { changed_fields: ['content'], created_by: admin.id });
+  });
+
+  afterEach(async () => {
+    await dispose();
+  });
+
+  async function getRevisionNumbers(): Promise<number[]> {
+    const { items } = await dbService.getArticleRevisions(article.id, { limit: 50 });
+    return items.map(revision => revision.revision_number).sort((a, b) => a - b);
+  }
+
+  it('numbers revisions from back-to-back updates sequentially', async () => {
+    for (const content of ['second version', 'third version', 'fourth version']) {
+      const response = await updateArticle(
+        new Request(`http://localhost/api/articles/${article.id}`, {
+          method: 'PUT',
+          body: JSON.stringify({ content }),
+        }),
+        env,
+        ctx,
+        { env, user: admin, requestId: 'test' },
+        article.id
+      );
+      expect(response.status).toBe(200);
+    }
+
+    expect(await getRevisionNumbers()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('assigns distinct numbers to concurrent revisions', async () => {
+    const revisions = await Promise.all(Array.from({ length: 5 }, () =>
+      dbService.createArticleRevision(article, { changed_fields: ['content'], created_by: admin.id })
+    ));
+
+    expect(revisions.map(revision => revision.revision_number).sort((a, b) => a - b)).toEqual([2, 3, 4, 5, 6]);
+    expect(await getRevisionNumbers()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
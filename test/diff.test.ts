@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from '../src/utils/diff';
+
+function lines(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`);
+}
+
+describe('diffLines', () => {
+  it('returns no chunks for two empty texts', () => {
+    expect(diffLines('', '')).toEqual([]);
+  });
+
+  it('marks every line as added or removed against an empty text', () => {
+    expect(diffLines('', 'a\nb')).toEqual([{ type: 'added', lines: ['a', 'b'] }]);
+    expect(diffLines('a\nb', '')).toEqual([{ type: 'removed', lines: ['a', 'b'] }]);
+  });
+
+  it('returns a single equal chunk for identical texts', () => {
+    expect(diffLines('a\nb\nc', 'a\nb\nc')).toEqual([{ type: 'equal', lines: ['a', 'b', 'c'] }]);
+  });
+
+  it('replaces disjoint texts entirely', () => {
+    expect(diffLines('a\nb', 'c\nd')).toEqual([
+      { type: 'removed', lines: ['a', 'b'] },
+      { type: 'added', lines: ['c', 'd'] },
+    ]);
+  });
+
+  it('keeps common lines between changes', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne')).toEqual([
+      { type: 'equal', lines: ['a'] },
+      { type: 'removed', lines: ['b'] },
+      { type: 'added', lines: ['x'] },
+      { type: 'equal', lines: ['c', 'd'] },
+      { type: 'added', lines: ['e'] },
+    ]);
+  });
+
+  it('finds the longest common subsequence below the size limit', () => {
+    const oldLines = [...lines('old', 500), 'shared', ...lines('old-tail', 500)];
+    const newLines = [...lines('new', 500), 'shared', ...lines('new-tail', 500)];
+
+    const chunks = diffLines(oldLines.join('\n'), newLines.join('\n'));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['removed', 'added', 'equal', 'removed', 'added']);
+    expect(chunks[2].lines).toEqual(['shared']);
+  });
+
+  it('falls back to replacing the changed range above the size limit', () => {
+    const oldLines = ['head', ...lines('old', 1000), 'shared', ...lines('old-tail', 1000), 'tail'];
+    const newLines = ['head', ...lines('new', 1000), 'shared', ...lines('new-tail', 1000), 'tail'];
+
+    const chunks = diffLines(oldLines.join('\n'), newLines.join('\n'));
+
+    expect(chunks).toEqual([
+      { type: 'equal', lines: ['head'] },
+      { type: 'removed', lines: oldLines.slice(1, -1) },
+      { type: 'added', lines: newLines.slice(1, -1) },
+      { type: 'equal', lines: ['tail'] },
+    ]);
+  });
+});
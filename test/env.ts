@@ -0,0 +1,61 @@
+import { readFileSync } from 'node:fs';
+import { Miniflare } from 'miniflare';
+import { Env, User } from '../src/types';
+
+const SCHEMA = readFileSync(new URL('../schema.sql', import.meta.url), 'utf8');
+
+/**
+ * 使用 Miniflare 提供的 D1、KV 和 R2 创建测试环境，并按 schema.sql 建立指定的表（包括 FTS5 虚拟表）
+ */
+export async function createTestEnv(tables: string[], vars: Partial<Env> = {}): Promise<{ env: Env; dispose: () => Promise<void> }> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default {}',
+    d1Databases: ['DB'],
+    kvNamespaces: ['CACHE'],
+    r2Buckets: ['STORAGE'],
+  });
+
+  const db = await mf.getD1Database('DB');
+  for (const table of tables) {
+    const match = SCHEMA.match(new RegExp(`CREATE (?:VIRTUAL )?TABLE IF NOT EXISTS ${table} (?:USING \\w+)?\\([\\s\\S]*?\\n\\);`));
+    if (!match) {
+      throw new Error(`Table ${table} not found in schema.sql`);
+    }
+    await db.prepare(match[0].replace(/--.*$/gm, '')).run();
+  }
+
+  const env = {
+    ENVIRONMENT: 'test',
+    FRONTEND_URL: 'http://localhost:3000',
+    JWT_SECRET: 'test-secret',
+    ADMIN_EMAILS: '[]',
+    GITHUB_CLIENT_SECRET: '',
+    DB: db,
+    CACHE: await mf.getKVNamespace('CACHE'),
+    STORAGE: await mf.getR2Bucket('STORAGE'),
+    ...vars,
+  } as unknown as Env;
+
+  return { env, dispose: () => mf.dispose() };
+}
+
+/**
+ * 写入一个测试用户
+ */
+export async function createTestUser(env: Env, role: User['role'] = 'user'): Promise<User> {
+  const user = {
+    id: `user-${role}`,
+    github_id: role.length,
+    username: role,
+    email: `${role}@example.com`,
+    name: role,
+    role,
+  } as User;
+
+  await env.DB.prepare(`
+    INSERT INTO users (id, github_id, username, email, name, role) VALUES (?, ?, ?, ?, ?, ?)
+  `).bind(user.id, user.github_id, user.username, user.email, user.name, user.role).run();
+
+  return user;
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, Env, User } from '../src/types';
+import { AIService } from '../src/services/ai';
+import { FakeAIProvider } from '../src/services/ai-providers';
+import { uploadFile, describeFile } from '../src/routes/files';
+import { createTestEnv, createTestUser } from './env';
+
+// 1x1 的 PNG 图片
+const PNG_BYTES = Uint8Array.from(atob(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+), c => c.charCodeAt(0));
+
+describe('image descriptions with FakeAIProvider', () => {
+  let env: Env;
+  let dispose: () => Promise<void>;
+  let user: User;
+
+  beforeEach(async () => {
+    ({ env, dispose } = await createTestEnv(['users', 'settings', 'ai_usage', 'files'], { AI_PROVIDER: 'fake' }));
+    user = await createTestUser(env);
+    await env.DB.prepare('INSERT INTO settings (key, value) VALUES (?, ?)')
+      .bind('allowed_file_types', JSON.stringify(['image/png']))
+      .run();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await dispose();
+  });
+
+  async function getUsage(): Promise<any[]> {
+    const { results } = await env.DB.prepare(`
+      SELECT operation, cached, success FROM ai_usage WHERE operation = 'describeImage' ORDER BY created_at
+    `).all();
+    return results;
+  }
+
+  async function upload(fields: Record<string, string> = {}): Promise<any> {
+    const formData = new FormData();
+    formData.append('file', new File([PNG_BYTES], 'pixel.png', { type: 'image/png' }));
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+
+    const response = await uploadFile(
+      new Request('http://localhost/api/files/upload', { method: 'POST', body: formData }),
+      env,
+      {},
+      { env, user, requestId: 'test' }
+    );
+    return { status: response.status, body: await response.json() as any };
+  }
+
+  it('describes an image and serves repeated calls from the cache', async () => {
+    const spy = vi.spyOn(FakeAIProvider.prototype, 'describeImage');
+    const aiService = await AIService.create(env, user);
+
+    const first = await aiService.describeImage(PNG_BYTES, { mimeType: 'image/png', language: 'en' });
+    const second = await aiService.describeImage(PNG_BYTES, { mimeType: 'image/png', language: 'en' });
+
+    expect(first.alt_text).toMatch(/^Image [0-9a-f]{8}$/);
+    expect(first.caption).toContain(`${PNG_BYTES.byteLength} bytes`);
+    expect(first.language).toBe('en');
+    expect(second).toEqual(first);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(await getUsage()).toMatchObject([{ cached: 0, success: 1 }, { cached: 1, success: 1 }]);
+  });
+
+  it('bypasses the cache when regenerating', async () => {
+    const spy = vi.spyOn(FakeAIProvider.prototype, 'describeImage');
+    const aiService = await AIService.create(env, user);
+
+    await aiService.describeImage(PNG_BYTES, { mimeType: 'image/png', language: 'en' });
+    await aiService.describeImage(PNG_BYTES, { mimeType: 'image/png', language: 'en', regenerate: true });
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(spy.mock.calls[1][2]).not.toHaveProperty('regenerate');
+    expect(await getUsage()).toMatchObject([{ cached: 0 }, { cached: 0 }]);
+  });
+
+  it('translates the description into the requested language', async () => {
+    const aiService = await AIService.create(env, user);
+
+    const description = await aiService.describeImage(PNG_BYTES, { mimeType: 'image/png', language: 'zh' });
+
+    expect(description.language).toBe('zh');
+    expect(description.alt_text).toMatch(/^\[zh\] Image /);
+    expect(description.caption).toMatch(/^\[zh\] A image\/png image/);
+  });
+
+  it('stores the description in the file metadata on upload', async () => {
+    const { status, body } = await upload({ describe: 'true', language: 'en' });
+
+    expect(status).toBe(200);
+    expect(body.data.metadata).toMatchObject({
+      altText: expect.stringMatching(/^Image [0-9a-f]{8}$/),
+      caption: expect.stringContaining('image/png'),
+      descriptionLanguage: 'en',
+    });
+    expect(await env.STORAGE.get(body.data.r2_key)).not.toBeNull();
+  });
+
+  it('skips the description on upload unless enabled', async () => {
+    const spy = vi.spyOn(FakeAIProvider.prototype, 'describeImage');
+
+    const { status, body } = await upload();
+
+    expect(status).toBe(200);
+    expect(body.data.metadata.altText).toBeUndefined();
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('still uploads when the AI quota is exhausted', async () => {
+    await env.DB.prepare('UPDATE users SET ai_daily_quota = 0 WHERE id = ?').bind(user.id).run();
+
+    const { status, body } = await upload({ describe: 'true', language: 'en' });
+
+    expect(status).toBe(200);
+    expect(body.data.metadata.altText).toBeUndefined();
+    expect(await getUsage()).toEqual([]);
+  });
+
+  it('regenerates the description of an uploaded image', async () => {
+    const { body: uploaded } = await upload({ describe: 'true', language: 'en' });
+    const spy = vi.spyOn(FakeAIProvider.prototype, 'describeImage');
+
+    const response = await describeFile(
+      new Request(`http://localhost/api/files/${uploaded.data.id}/describe?language=en`, { method: 'POST' }),
+      env,
+      {},
+      { env, user, requestId: 'test' },
+      uploaded.data.id
+    );
+    const body = await response.json() as any;
+
+    expect(response.status).toBe(200);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(body.data.metadata.altText).toBe(uploaded.data.metadata.altText);
+    expect(await getUsage()).toMatchObject([{ cached: 0 }, { cached: 0 }]);
+  });
+
+  it('reports the quota error when it runs out while regenerating', async () => {
+    const { body: uploaded } = await upload({ describe: 'true', language: 'en' });
+    vi.spyOn(AIService.prototype, 'describeImage')
+      .mockRejectedValue(new ApiError('Daily AI quota exceeded', 429, 'AI_QUOTA_EXCEEDED'));
+
+    const response = await describeFile(
+      new Request(`http://localhost/api/files/${uploaded.data.id}/describe?language=en`, { method: 'POST' }),
+      env,
+      {},
+      { env, user, requestId: 'test' },
+      uploaded.data.id
+    );
+    const body = await response.json() as any;
+
+    expect(body.error).toBe('Daily AI quota exceeded');
+  });
+
+  it('surfaces the quota error instead of falling back', async () => {
+    await env.DB.prepare('UPDATE users SET ai_daily_quota = 1 WHERE id = ?').bind(user.id).run();
+    const aiService = await AIService.create(env, user);
+    await aiService.describeImage(PNG_BYTES, { mimeType: 'image/png', language: 'en' });
+    const onFallback = vi.fn();
+
+    await expect(aiService.generateSummary({ content: 'Some article content to summarize.' }, { onFallback }))
+      .rejects.toMatchObject({ statusCode: 429 });
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown, sanitizeHtml } from '../src/utils/markdown';
+
+const render = (markdown: string) => renderMarkdown(markdown).html;
+
+// 渲染结果中不能出现可执行的链接地址
+const UNSAFE_URL = /(?:href|src|cite)="[^"]*(?:javascript|vbscript|data):/i;
+
+describe('renderMarkdown links', () => {
+  it('renders safe links and images', () => {
+    expect(render('[a](https://example.com "Title")')).toBe('<p><a href="https://example.com" title="Title">a</a></p>');
+    expect(render('![alt](/a.png)')).toBe('<p><img src="/a.png" alt="alt" loading="lazy"></p>');
+  });
+
+  it.each([
+    '[x](javascript:alert(1))',
+    '[x](JavaScript:alert(1))',
+    '[x](java\tscript:alert(1))',
+    '[x](java\u0001script:alert(1))',
+    '[x](jav&#97;script:alert(1))',
+    '[x](&#106;avascript:alert(1))',
+    '[x](<javascript:alert(1)>)',
+    '[x][ref]\n\n[ref]: javascript:alert(1)',
+    '![x](javascript:alert(1))',
+    '![x](data:text/html;base64,PHNjcmlwdD4=)',
+    '<javascript:alert(1)>',
+  ])('drops unsafe link %j', markdown => {
+    expect(render(markdown)).not.toMatch(UNSAFE_URL);
+  });
+
+  it('keeps the text of dropped links', () => {
+    expect(render('[click](javascript:alert(1))')).toBe('<p>click</p>');
+  });
+
+  it('allows balanced parentheses in URLs', () => {
+    expect(render('[w](https://en.wikipedia.org/wiki/Foo_(bar))')).toBe(
+      '<p><a href="https://en.wikipedia.org/wiki/Foo_(bar)">w</a></p>'
+    );
+    expect(render('[a](/x) b)')).toBe('<p><a href="/x">a</a> b)</p>');
+  });
+
+  it('renders reference links and footnotes', () => {
+    expect(render('[Foo] and [text][foo]\n\n[foo]: /foo "Foo"')).toBe(
+      '<p><a href="/foo" title="Foo">Foo</a> and <a href="/foo" title="Foo">text</a></p>'
+    );
+
+    const html = render('Note[^1] and [^missing].\n\n[^1]: The note.');
+    expect(html).toContain('<sup class="footnote-ref"><a href="#fn-1" id="fnref-1">1</a></sup>');
+    expect(html).toContain('[^missing]');
+    expect(html).toContain('<li id="fn-1">');
+  });
+
+  it.each([
+    ['unclosed inline links', '[a]('],
+    ['unclosed footnote refs', '[^a'],
+    ['unclosed images', '!['],
+    ['open brackets', '['],
+    ['nested parentheses', '[a](b('],
+    ['reference links', '[a]['],
+  ])('renders repeated %s in linear time', (_, unit) => {
+    const markdown = unit.repeat(20000);
+    const start = Date.now();
+    const html = render(markdown);
+
+    expect(Date.now() - start).toBeLessThan(2000);
+    expect(html).not.toContain('<a ');
+  });
+});
+
+describe('raw HTML', () => {
+  it.each([
+    ['href', '<a href="javascript:alert(1)">x</a>'],
+    ['tab-split href', '<a href="java\tscript:alert(1)">x</a>'],
+    ['entity-encoded href', '<a href="&#106;avascript&#58;alert(1)">x</a>'],
+    ['hex entity href', '<a href="&#x6A;avascript:alert(1)">x</a>'],
+    ['newline entity href', '<a href="java&#10;script:alert(1)">x</a>'],
+    ['src', '<img src="javascript:alert(1)">'],
+    ['data src', '<img src="data:image/svg+xml,<svg onload=alert(1)>">'],
+    ['cite', '<blockquote cite="vbscript:msgbox(1)">x</blockquote>'],
+  ])('drops unsafe %s', (_, html) => {
+    expect(sanitizeHtml(html)).not.toMatch(UNSAFE_URL);
+    expect(render(html)).not.toMatch(UNSAFE_URL);
+  });
+
+  it('keeps safe attributes and drops event handlers', () => {
+    expect(sanitizeHtml('<a href="/x" onclick="alert(1)" title="t">x</a>')).toBe('<a href="/x" title="t">x</a>');
+    expect(sanitizeHtml('<img src="/a.png" onerror=alert(1) alt="a">')).toBe('<img src="/a.png" alt="a">');
+    expect(render('<div onmouseover="alert(1)">x</div>')).not.toContain('onmouseover');
+  });
+
+  it('removes script and style elements with their content', () => {
+    expect(sanitizeHtml('a<script>alert(1)</script>b<style>body{}</style>c')).toBe('abc');
+    expect(sanitizeHtml('<SCRIPT src="x.js"></SCRIPT >ok')).toBe('ok');
+    expect(render('text <script>alert(1)</script> more')).not.toContain('script');
+  });
+
+  it('strips tags outside the allowlist but keeps their text', () => {
+    expect(sanitizeHtml('<form action="/x"><b>bold</b></form>')).toBe('<b>bold</b>');
+  });
+
+  it.each([
+    '<a href="&#99999999;">x</a>',
+    '<img src="&#x110000;">',
+    '<a href="&#xD800;">x</a>',
+    '<a href="&#0;">x</a>',
+    '![&#99999999;](/a.png)',
+  ])('replaces out-of-range entities in %j', html => {
+    expect(() => render(html)).not.toThrow();
+    expect(() => sanitizeHtml(html)).not.toThrow();
+  });
+
+  it('decodes out-of-range entities to the replacement character', () => {
+    expect(sanitizeHtml('<a href="/a&#99999999;b">x</a>')).toBe('<a href="/a�b">x</a>');
+    expect(render('![a&#x110000;](/a.png)')).toContain('alt="a�"');
+  });
+});
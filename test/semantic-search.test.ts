@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Article, Env, User } from '../src/types';
+import { generateSlug } from '../src/utils';
+import { DatabaseService } from '../src/services/database';
+import { EmbeddingService } from '../src/services/embedding';
+import { createVectorStore } from '../src/services/vector-store';
+import { updateArticle, getRelatedArticles } from '../src/routes/articles';
+import { semanticSearch } from '../src/routes/search';
+import { createTestEnv, createTestUser } from './env';
+
+describe('semantic search with the in-memory vector store', () => {
+  let env: Env;
+  let dispose: () => Promise<void>;
+  let admin: User;
+  let pending: Promise<unknown>[];
+  let articleIds: string[];
+
+  const ctx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise) };
+
+  beforeEach(async () => {
+    ({ env, dispose } = await createTestEnv([
+      'users', 'settings', 'ai_usage', 'articles', 'article_authors', 'article_revisions',
+      'article_status_transitions', 'article_tags', 'articles_fts', 'slug_redirects',
+    ], { AI_PROVIDER: 'fake', VECTOR_STORE: 'memory' }));
+    admin = await createTestUser(env, 'admin');
+    pending = [];
+    articleIds = [];
+  });
+
+  afterEach(async () => {
+    // 内存索引在同一进程内共享，清理本次写入的向量
+    await createVectorStore(env)!.delete(articleIds);
+    await dispose();
+  });
+
+  async function create(title: string, content: string): Promise<Article> {
+    const article = await new DatabaseService(env.DB).createArticle({
+      title,
+      slug: generateSlug(title),
+      content,
+      excerpt: title,
+      summary: '',
+      cover_image: '',
+      status: 'published',
+      category: 'uncategorized',
+      tags: [],
+      author_id: admin.id,
+      published_at: new Date().toISOString(),
+      view_count: 0,
+      like_count: 0,
+    });
+    articleIds.push(article.id);
+    await new EmbeddingService(env).syncArticle(article);
+    return article;
+  }
+
+  async function search(query: string): Promise<any[]> {
+    const response = await semanticSearch(
+      new Request(`http://localhost/api/search/semantic?q=${encodeURIComponent(query)}`),
+      env,
+      ctx,
+      { env, requestId: 'test' }
+    );
+    const { data } = await response.json() as any;
+    return data.articles;
+  }
+
+  async function related(slug: string): Promise<any[]> {
+    const response = await getRelatedArticles(
+      new Request(`http://localhost/api/articles/${slug}/related`),
+      env,
+      ctx,
+      { env, requestId: 'test' },
+      slug
+    );
+    const { data } = await response.json() as any;
+    return data.articles;
+  }
+
+  it('ranks articles by similarity to the query', async () => {
+    const rust = await create('Rust ownership', 'rust borrow checker ownership lifetimes memory safety');
+    const css = await create('CSS layout', 'css grid flexbox layout responsive design');
+    const sql = await create('SQL indexes', 'sql database indexes query planner joins');
+
+    const results = await search('css flexbox layout');
+
+    expect(results.map(article => article.id)).toEqual(expect.arrayContaining([rust.id, css.id, sql.id]));
+    expect(results[0].id).toBe(css.id);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[0].content).toBeUndefined();
+  });
+
+  it('excludes the source article from related articles', async () => {
+    const first = await create('Rust ownership', 'rust borrow checker ownership lifetimes memory safety');
+    const second = await create('Rust lifetimes', 'rust lifetimes borrow checker references');
+    await create('CSS layout', 'css grid flexbox layout responsive design');
+
+    const results = await related(first.slug);
+
+    expect(results.map(article => article.id)).not.toContain(first.id);
+    expect(results[0].id).toBe(second.id);
+  });
+
+  it('refreshes the embedding when the content changes', async () => {
+    const rust = await create('Rust ownership', 'rust borrow checker ownership lifetimes memory safety');
+    const notes = await create('Notes', 'sql database indexes query planner joins');
+    expect((await search('rust borrow checker'))[0].id).toBe(rust.id);
+
+    const response = await updateArticle(
+      new Request(`http://localhost/api/articles/${notes.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ content: 'rust borrow checker rust borrow checker' }),
+      }),
+      env,
+      ctx,
+      { env, user: admin, requestId: 'test' },
+      notes.id
+    );
+    expect(response.status).toBe(200);
+    await Promise.all(pending);
+
+    expect((await search('rust borrow checker'))[0].id).toBe(notes.id);
+  });
+});
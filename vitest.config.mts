@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Miniflare 启动 workerd 较慢，D1 查询也要经过 workerd
+    hookTimeout: 30000,
+    testTimeout: 30000,
+  },
+});